@@ -0,0 +1,92 @@
+import * as http from 'http'
+import {AddressInfo} from 'net'
+import {Octokit} from '@octokit/rest'
+
+import {getApiUrls} from '../lib/api-url'
+import {Helper} from '../lib/helper'
+
+const codeOwners = '* @octocat\n'
+
+// A local stand-in for a GitHub Enterprise Server API
+function handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const url = new URL(req.url ?? '', 'http://localhost')
+  const path = decodeURIComponent(url.pathname)
+  res.setHeader('content-type', 'application/json')
+  if (path === '/api/v3/repos/owner/repo/contents/.github/CODEOWNERS') {
+    if (req.headers.accept?.includes('.raw')) {
+      res.setHeader('content-type', 'text/plain')
+      res.end(codeOwners)
+    } else {
+      res.end(JSON.stringify({type: 'file', content: '', encoding: 'none'}))
+    }
+  } else if (path === '/api/v3/repos/owner/repo/pulls/1/reviews') {
+    res.end(
+      JSON.stringify([
+        {user: {login: 'octocat'}, state: 'APPROVED', commit_id: null}
+      ])
+    )
+  } else if (
+    path === '/api/v3/repos/owner/repo/collaborators/octocat/permission'
+  ) {
+    res.end(JSON.stringify({permission: 'write', role_name: 'write'}))
+  } else {
+    res.statusCode = 404
+    res.end(JSON.stringify({message: 'Not Found'}))
+  }
+}
+
+describe('api-url tests', () => {
+  let server: http.Server
+  let baseUrl: string
+  const env = {...process.env}
+
+  beforeAll(async () => {
+    server = http.createServer(handle)
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const {port} = server.address() as AddressInfo
+    baseUrl = `http://127.0.0.1:${port}/api/v3`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  afterEach(() => {
+    process.env = {...env}
+  })
+
+  it('gets the API URLs', async () => {
+    delete process.env.GITHUB_API_URL
+    delete process.env.GITHUB_GRAPHQL_URL
+    expect(getApiUrls()).toEqual({
+      baseUrl: 'https://api.github.com',
+      graphqlUrl: 'https://api.github.com/graphql'
+    })
+    expect(getApiUrls('https://github.example.com/api/v3/')).toEqual({
+      baseUrl: 'https://github.example.com/api/v3',
+      graphqlUrl: 'https://github.example.com/api/graphql'
+    })
+    process.env.GITHUB_API_URL = 'https://github.example.com/api/v3'
+    process.env.GITHUB_GRAPHQL_URL = 'https://github.example.com/api/graphql'
+    expect(getApiUrls()).toEqual({
+      baseUrl: 'https://github.example.com/api/v3',
+      graphqlUrl: 'https://github.example.com/api/graphql'
+    })
+  })
+
+  it('uses the configured host', async () => {
+    process.env.GITHUB_API_URL = baseUrl
+    const octokit = new Octokit({baseUrl: getApiUrls().baseUrl})
+    const helper = new Helper(octokit)
+    const entries = await helper.getCodeOwners('owner', 'repo', 'main')
+    expect(entries.map(e => e.owners)).toEqual([['@octocat']])
+    expect(
+      await helper.getApprovers('owner', 'repo', 1, [], 'author', {})
+    ).toEqual(['octocat'])
+    expect(
+      await helper.getApprovers('owner', 'repo', 1, [], 'author', {
+        headSha: 'abc123'
+      })
+    ).toEqual([])
+  })
+})
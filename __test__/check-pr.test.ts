@@ -0,0 +1,759 @@
+import {checkPullRequest} from '../lib/check-pr'
+import {GitHubClient} from '../lib/client'
+import {Logger} from '../lib/logger'
+import {CHECK_NAMES} from '../lib/policy'
+
+interface MockOptions {
+  // The permission of each user, write by default
+  permissions?: Record<string, string>
+  labels?: string[]
+  // The files in the base branch, e.g. the CODEOWNERS file
+  files?: Record<string, string>
+  // The members of each team, other teams can't be read
+  teams?: Record<string, string[]>
+  // The users with a public email
+  emails?: Record<string, string>
+  // Changes to the pull request
+  pull?: Record<string, unknown>
+  // The check runs of each request, the last is repeated
+  checkRuns?: {name: string; status: string; conclusion: string | null}[][]
+  // The commit statuses, the latest first
+  statuses?: {context: string; state: string}[]
+  // The issues linked in the Development sidebar, e.g. owner/repo#1
+  closingIssues?: string[]
+}
+
+function mockClient(
+  reviews: {user: {login: string}; state: string; commit_id?: string}[],
+  {
+    permissions = {},
+    labels = [],
+    files = {},
+    teams = {},
+    emails = {},
+    pull: pullChanges = {},
+    checkRuns = [[]],
+    statuses = [],
+    closingIssues = []
+  }: MockOptions = {}
+): {
+  octokit: GitHubClient
+  get: jest.Mock
+  paginate: jest.Mock
+  createComment: jest.Mock
+} {
+  const get = jest.fn().mockResolvedValue({
+    data: {
+      number: 1,
+      base: {ref: 'main'},
+      head: {sha: 'abc'},
+      user: {login: 'author'},
+      changed_files: 2,
+      commits: 3,
+      additions: 30,
+      deletions: 5,
+      merged: false,
+      mergeable: true,
+      mergeable_state: 'clean',
+      ...pullChanges
+    }
+  })
+  const getContent = jest.fn(async ({path}: {path: string}) => {
+    if (files[path] === undefined) {
+      throw {status: 404}
+    }
+    return {
+      data: {
+        type: 'file',
+        content: Buffer.from(files[path]).toString('base64'),
+        encoding: 'base64'
+      }
+    }
+  })
+  const getCollaboratorPermissionLevel = jest.fn(
+    async ({username}: {username: string}) => ({
+      data: {permission: permissions[username] ?? 'write'}
+    })
+  )
+  const users = jest.fn(async ({q}: {q: string}) => {
+    const login = emails[q.split(' ')[0]]
+    return {
+      data: {total_count: login ? 1 : 0, items: login ? [{login}] : []}
+    }
+  })
+  const listFiles = jest.fn()
+  const listReviews = jest.fn()
+  const listCommits = jest.fn()
+  const listLabelsOnIssue = jest.fn()
+  const listComments = jest.fn()
+  const listMembersInOrg = jest.fn()
+  const listForRef = jest.fn()
+  const listCommitStatusesForRef = jest.fn()
+  const createComment = jest.fn().mockResolvedValue({data: {id: 1}})
+  const graphql = jest.fn().mockResolvedValue({
+    repository: {
+      pullRequest: {
+        closingIssuesReferences: {
+          nodes: closingIssues.map(issue => {
+            const [nameWithOwner, number] = issue.split('#')
+            return {number: Number(number), repository: {nameWithOwner}}
+          })
+        }
+      }
+    }
+  })
+  const paginate = jest.fn(
+    async (method: unknown, params: {org?: string; team_slug?: string}) => {
+      if (method === listMembersInOrg) {
+        const members = teams[`${params.org}/${params.team_slug}`]
+        if (!members) {
+          throw {status: 404}
+        }
+        return members.map(login => ({login}))
+      }
+      if (method === listForRef) {
+        return checkRuns.length > 1 ? checkRuns.shift() : checkRuns[0]
+      }
+      if (method === listCommitStatusesForRef) {
+        return statuses
+      }
+      if (method === listLabelsOnIssue) {
+        return labels.map(name => ({name}))
+      }
+      if (method === listFiles) {
+        return [
+          {filename: 'README.md', additions: 10, deletions: 5},
+          {filename: '.github/workflows/ci.yml', additions: 20, deletions: 0}
+        ]
+      }
+      if (method === listCommits) {
+        return [
+          {
+            sha: 'a1',
+            commit: {
+              message:
+                'Add feature\n\nSigned-off-by: Author <author@example.com>\nCo-authored-by: Pair <42+pair@users.noreply.github.com>',
+              author: {name: 'Author', email: 'author@example.com'},
+              committer: {name: 'Author', email: 'author@example.com'},
+              verification: {verified: true, reason: 'valid'}
+            },
+            author: {login: 'author'},
+            committer: {login: 'author'},
+            parents: [{sha: 'a0'}]
+          },
+          {
+            sha: 'b2',
+            commit: {
+              message: 'Fix typo',
+              author: {name: 'Helper', email: 'helper@gmail.com'},
+              committer: {name: 'Helper', email: 'helper@gmail.com'},
+              verification: {verified: false, reason: 'unsigned'}
+            },
+            author: {login: 'helper'},
+            committer: {login: 'helper'},
+            parents: [{sha: 'a1'}]
+          },
+          {
+            sha: 'c3',
+            commit: {
+              message: "Merge branch 'main' into feature",
+              author: {name: 'Maintainer', email: 'maintainer@example.com'},
+              committer: {name: 'GitHub', email: 'noreply@github.com'},
+              verification: {verified: true, reason: 'valid'}
+            },
+            author: {login: 'maintainer'},
+            committer: {login: 'web-flow'},
+            parents: [{sha: 'b2'}, {sha: 'm1'}]
+          }
+        ]
+      }
+      return method === listReviews ? reviews : []
+    }
+  )
+  const octokit = {
+    rest: {
+      pulls: {get, listFiles, listReviews, listCommits},
+      issues: {listLabelsOnIssue, listComments, createComment},
+      repos: {
+        getContent,
+        getCollaboratorPermissionLevel,
+        listCommitStatusesForRef
+      },
+      checks: {listForRef},
+      search: {users},
+      teams: {listMembersInOrg}
+    },
+    paginate,
+    graphql
+  } as unknown as GitHubClient
+  return {octokit, get, paginate, createComment}
+}
+
+function mockLogger(): Logger {
+  return {
+    info: jest.fn(),
+    notice: jest.fn(),
+    warning: jest.fn(),
+    error: jest.fn()
+  }
+}
+
+const pull = {owner: 'owner', repo: 'repo', actor: 'author', pullNumber: 1}
+
+describe('check pull request tests', () => {
+  it('returns the result of each check', async () => {
+    const {octokit} = mockClient([
+      {user: {login: 'reviewer'}, state: 'APPROVED'}
+    ])
+    const logger = mockLogger()
+    const result = await checkPullRequest({...pull, octokit, logger})
+    expect(result.status).toBe('passed')
+    expect(result.headSha).toBe('abc')
+    expect(result.message).toBe('')
+    expect(
+      result.results.find(r => r.rule === 'require_approved_review')
+    ).toMatchObject({status: 'passed', details: {approvers: ['reviewer']}})
+    expect(logger.info).toHaveBeenCalledWith('Get pull request 1.')
+    expect(result.results.map(r => r.rule)).toEqual(CHECK_NAMES)
+  })
+
+  it('returns the failed checks', async () => {
+    const {octokit} = mockClient([])
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger()
+    })
+    expect(result.status).toBe('failed')
+    expect(result.message).not.toBe('')
+    expect(
+      result.results.find(r => r.rule === 'require_approved_review')?.status
+    ).toBe('failed')
+  })
+
+  it('uses the latest review state of each reviewer', async () => {
+    const reviews = [
+      {user: {login: 'alice'}, state: 'APPROVED', commit_id: 'abc'},
+      {user: {login: 'alice'}, state: 'COMMENTED', commit_id: 'abc'},
+      {user: {login: 'bob'}, state: 'APPROVED', commit_id: 'abc'},
+      {user: {login: 'bob'}, state: 'CHANGES_REQUESTED', commit_id: 'abc'},
+      {user: {login: 'carol'}, state: 'APPROVED', commit_id: 'abc'},
+      {user: {login: 'carol'}, state: 'DISMISSED', commit_id: 'abc'},
+      {user: {login: 'dave'}, state: 'APPROVED', commit_id: 'old'},
+      {user: {login: 'erin'}, state: 'CHANGES_REQUESTED', commit_id: 'old'},
+      {user: {login: 'erin'}, state: 'APPROVED', commit_id: 'abc'}
+    ]
+    const options = {
+      ...pull,
+      logger: mockLogger(),
+      failFast: false,
+      failOnChangesRequested: true
+    }
+    const all = await checkPullRequest({
+      ...options,
+      octokit: mockClient(reviews).octokit
+    })
+    expect(
+      all.results.find(r => r.rule === 'require_approved_review')?.details
+    ).toEqual({approvers: ['alice', 'dave', 'erin']})
+    expect(
+      all.results.find(r => r.rule === 'fail_on_changes_requested')
+    ).toMatchObject({
+      status: 'failed',
+      message: 'Pull request 1 has changes requested by @bob.'
+    })
+
+    const current = await checkPullRequest({
+      ...options,
+      octokit: mockClient(reviews).octokit,
+      ignoreStaleApprovals: true
+    })
+    expect(
+      current.results.find(r => r.rule === 'require_approved_review')?.details
+    ).toEqual({approvers: ['alice', 'erin']})
+  })
+
+  it('counts the required approvals', async () => {
+    const {octokit} = mockClient([{user: {login: 'docs'}, state: 'APPROVED'}], {
+      files: {'.github/CODEOWNERS': '* @docs'}
+    })
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      failFast: false,
+      requireActorIsCodeOwner: false,
+      requiredApprovals: 2
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_code_owner_review')?.status
+    ).toBe('passed')
+    expect(
+      result.results.find(r => r.rule === 'require_approved_review')
+    ).toMatchObject({
+      status: 'failed',
+      message: 'Pull request 1 has not been approved by 2 reviewers.',
+      details: {approvers: ['docs']}
+    })
+  })
+
+  it('counts the required approvals of a code team', async () => {
+    const options = {
+      labels: ['security'],
+      files: {CODETEAMS: 'security:2 @alice @bob @carol'}
+    }
+    const one = mockClient(
+      [{user: {login: 'alice'}, state: 'APPROVED'}],
+      options
+    )
+    const result = await checkPullRequest({
+      ...pull,
+      octokit: one.octokit,
+      logger: mockLogger()
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_code_team_review')
+    ).toMatchObject({
+      status: 'failed',
+      message:
+        'Pull request 1 has not been approved by 2 security code team users (@alice,@bob,@carol).'
+    })
+
+    const two = mockClient(
+      [
+        {user: {login: 'alice'}, state: 'APPROVED'},
+        {user: {login: 'bob'}, state: 'APPROVED'}
+      ],
+      options
+    )
+    const approved = await checkPullRequest({
+      ...pull,
+      octokit: two.octokit,
+      logger: mockLogger()
+    })
+    expect(
+      approved.results.find(r => r.rule === 'require_code_team_review')?.status
+    ).toBe('passed')
+  })
+
+  it('gets the reviews once for all code teams', async () => {
+    const {octokit, paginate} = mockClient(
+      [
+        {user: {login: 'alice'}, state: 'APPROVED'},
+        {user: {login: 'bob'}, state: 'APPROVED'}
+      ],
+      {
+        labels: ['security', 'ops'],
+        files: {CODETEAMS: 'security @alice\nops @bob'}
+      }
+    )
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger()
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_code_team_review')?.status
+    ).toBe('passed')
+    expect(
+      paginate.mock.calls.filter(
+        ([method]) => method === octokit.rest.pulls.listReviews
+      )
+    ).toEqual([
+      [
+        octokit.rest.pulls.listReviews,
+        {owner: 'owner', repo: 'repo', pull_number: 1, per_page: 100}
+      ]
+    ])
+  })
+
+  it('fails when GitHub list fewer files than changed', async () => {
+    const {octokit} = mockClient([{user: {login: 'docs'}, state: 'APPROVED'}], {
+      files: {'.github/CODEOWNERS': '* @docs'},
+      pull: {changed_files: 3}
+    })
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      requireActorIsCodeOwner: false
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_code_owner_review')
+    ).toMatchObject({
+      status: 'failed',
+      message:
+        "Pull request 1 change 3 files, but GitHub only list 2 of them. The files that are not listed can't be checked against the CODEOWNERS file."
+    })
+  })
+
+  it('checks the permission of the actor and reviewers', async () => {
+    const {octokit} = mockClient(
+      [{user: {login: 'reader'}, state: 'APPROVED'}],
+      {permissions: {author: 'read', reader: 'read'}}
+    )
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      failFast: false,
+      requiredActorPermission: 'write'
+    })
+    expect(
+      result.results.find(r => r.rule === 'required_actor_permission')
+    ).toMatchObject({
+      status: 'failed',
+      message:
+        'User author has the read permission in the repo repository, but the write permission is required.'
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_approved_review')
+    ).toMatchObject({status: 'failed', details: {approvers: []}})
+  })
+
+  it('resolves the teams and emails of the code owners once', async () => {
+    const {octokit, paginate} = mockClient(
+      [{user: {login: 'bob'}, state: 'APPROVED'}],
+      {
+        files: {
+          '.github/CODEOWNERS':
+            '* @org/dev\n/README.md @org/dev dev@example.com'
+        },
+        teams: {'org/dev': ['alice']},
+        emails: {'dev@example.com': 'bob'}
+      }
+    )
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      requireActorIsCodeOwner: false
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_code_owner_review')
+    ).toMatchObject({status: 'passed', message: 'Approved by a code owner.'})
+    expect(
+      paginate.mock.calls.filter(([, params]) => params.team_slug === 'dev')
+    ).toHaveLength(1)
+  })
+
+  it('fails when no code owner could be resolved', async () => {
+    const {octokit} = mockClient(
+      [{user: {login: 'reviewer'}, state: 'APPROVED'}],
+      {files: {'.github/CODEOWNERS': '* @org/platform'}}
+    )
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      requireActorIsCodeOwner: false
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_code_owner_review')
+    ).toMatchObject({
+      status: 'failed',
+      message:
+        "Pull request 1 can't be approved by a code owner, because no code owner of the changed files could be resolved (*). Make sure the token can read the members of the owning teams."
+    })
+  })
+
+  it('requires a code owner approval for each owned path', async () => {
+    const {octokit} = mockClient([{user: {login: 'docs'}, state: 'APPROVED'}], {
+      files: {'.github/CODEOWNERS': '/README.md @docs\n/.github/ @ops'}
+    })
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      requireActorIsCodeOwner: false,
+      requireCodeOwnerCoverage: true
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_code_owner_review')
+    ).toMatchObject({
+      status: 'failed',
+      message:
+        'Pull request 1 has not been approved by a code owner for all changed paths:\n- /.github/ (/.github/workflows/ci.yml) require approval by @ops',
+      details: {missingApprovers: ['@ops']}
+    })
+  })
+
+  it('checks protected paths and the change size', async () => {
+    const {octokit} = mockClient([
+      {user: {login: 'reviewer'}, state: 'APPROVED'}
+    ])
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      failFast: false,
+      protectedPaths: ['README.md @reviewer', '.github/workflows/** @admin'],
+      maxChangedFiles: 2,
+      maxChangedLines: 30
+    })
+    expect(
+      result.results.find(r => r.rule === 'protected_paths')
+    ).toMatchObject({
+      status: 'failed',
+      message:
+        'Pull request 1 change protected paths that are not approved:\n- .github/workflows/** (/.github/workflows/ci.yml) need approval from one of @admin',
+      details: {missingApprovers: ['@admin']}
+    })
+    expect(
+      result.results.find(r => r.rule === 'max_changed_files')?.status
+    ).toBe('passed')
+    expect(
+      result.results.find(r => r.rule === 'max_changed_lines')?.message
+    ).toBe(
+      'Pull request 1 change 35 lines (+30 -5), but at most 30 lines can be changed. The largest changes are:\n- /.github/workflows/ci.yml: +20 -0\n- /README.md: +10 -5'
+    )
+  })
+
+  it('fails a protected path when no owner could be resolved', async () => {
+    const {octokit} = mockClient([
+      {user: {login: 'reviewer'}, state: 'APPROVED'}
+    ])
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      protectedPaths: ['.github/workflows/** @org/platform']
+    })
+    expect(
+      result.results.find(r => r.rule === 'protected_paths')
+    ).toMatchObject({
+      status: 'failed',
+      message:
+        'Pull request 1 change protected paths that are not approved:\n- .github/workflows/** (/.github/workflows/ci.yml) need approval from one of @org/platform, but no owner could be resolved',
+      details: {missingApprovers: []}
+    })
+  })
+
+  it('reports each commit that fails the commit checks', async () => {
+    const {octokit} = mockClient([
+      {user: {login: 'reviewer'}, state: 'APPROVED'}
+    ])
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      failFast: false,
+      requireVerifiedCommits: true,
+      allowedAuthorDomains: ['example.com'],
+      requireSignOff: true
+    })
+    expect(
+      result.results
+        .filter(r =>
+          [
+            'require_verified_commits',
+            'allowed_author_domains',
+            'require_sign_off'
+          ].includes(r.rule)
+        )
+        .map(r => r.message)
+    ).toEqual([
+      'Pull request 1 has commits without a verified signature:\n- b2 is not signed',
+      'Pull request 1 has commits by authors outside the allowed email domains:\n- b2 is authored by helper@gmail.com, but the email domain must be one of example.com',
+      'Pull request 1 has commits that are not signed off by the author:\n- b2 has no Signed-off-by trailer'
+    ])
+  })
+
+  it('ignores approvals by the contributors of the commits', async () => {
+    // The maintainer only updated the head branch with a merge commit
+    const {octokit} = mockClient([
+      {user: {login: 'helper'}, state: 'APPROVED'},
+      {user: {login: 'pair'}, state: 'APPROVED'},
+      {user: {login: 'maintainer'}, state: 'APPROVED'},
+      {user: {login: 'reviewer'}, state: 'APPROVED'}
+    ])
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      ignoreContributorApprovals: true
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_approved_review')?.details
+    ).toEqual({approvers: ['maintainer', 'reviewer']})
+  })
+
+  it('waits for missing and pending required checks', async () => {
+    jest.useFakeTimers()
+    try {
+      const {octokit} = mockClient(
+        [{user: {login: 'reviewer'}, state: 'APPROVED'}],
+        {
+          checkRuns: [
+            [],
+            [{name: 'build', status: 'in_progress', conclusion: null}],
+            [{name: 'build', status: 'completed', conclusion: 'success'}]
+          ],
+          statuses: [
+            {context: 'deploy', state: 'success'},
+            {context: 'deploy', state: 'failure'}
+          ]
+        }
+      )
+      const promise = checkPullRequest({
+        ...pull,
+        octokit,
+        logger: mockLogger(),
+        requiredChecks: ['build', 'deploy'],
+        requiredChecksTimeout: 60
+      })
+      await jest.advanceTimersByTimeAsync(30000)
+      const result = await promise
+      expect(
+        result.results.find(r => r.rule === 'required_checks')
+      ).toMatchObject({
+        status: 'passed',
+        message: 'The required checks has succeeded (build,deploy).'
+      })
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('fails at once when a required check failed', async () => {
+    const {octokit} = mockClient(
+      [{user: {login: 'reviewer'}, state: 'APPROVED'}],
+      {
+        checkRuns: [
+          [{name: 'build', status: 'completed', conclusion: 'failure'}]
+        ]
+      }
+    )
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      requiredChecks: ['build', 'test'],
+      requiredChecksTimeout: 60
+    })
+    expect(
+      result.results.find(r => r.rule === 'required_checks')?.message
+    ).toBe(
+      'The required checks has not succeeded for commit abc of pull request 1:\n- test is missing\n- build has failed'
+    )
+  })
+
+  it('finds the issues linked in the body or the sidebar', async () => {
+    const options = {
+      ...pull,
+      logger: mockLogger(),
+      requireLinkedIssue: true
+    }
+    const none = await checkPullRequest({
+      ...options,
+      octokit: mockClient([{user: {login: 'reviewer'}, state: 'APPROVED'}])
+        .octokit
+    })
+    expect(
+      none.results.find(r => r.rule === 'require_linked_issue')?.status
+    ).toBe('failed')
+
+    const {octokit} = mockClient(
+      [{user: {login: 'reviewer'}, state: 'APPROVED'}],
+      {
+        pull: {body: 'Fixes #3'},
+        closingIssues: ['owner/repo#3', 'other/repo#7']
+      }
+    )
+    const linked = await checkPullRequest({...options, octokit})
+    expect(
+      linked.results.find(r => r.rule === 'require_linked_issue')
+    ).toMatchObject({
+      status: 'passed',
+      message: 'Pull request 1 link to owner/repo#3, other/repo#7.'
+    })
+  })
+
+  it('bypasses failed checks with a break-glass override', async () => {
+    const {octokit, createComment} = mockClient(
+      [{user: {login: 'admin'}, state: 'APPROVED'}],
+      {labels: ['hotfix']}
+    )
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger(),
+      requiredApprovals: 2,
+      breakGlassLabel: 'hotfix',
+      breakGlassApprovers: ['@admin'],
+      breakGlassChecks: ['require_approved_review', 'protected_paths']
+    })
+    expect(result.status).toBe('passed')
+    expect(result.override).toEqual({
+      label: 'hotfix',
+      approvers: ['admin'],
+      checks: ['require_approved_review']
+    })
+    expect(
+      result.results.find(r => r.rule === 'require_approved_review')?.status
+    ).toBe('bypassed')
+    expect(createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.stringContaining('Break-glass override')
+      })
+    )
+  })
+
+  it('returns the results when the comment can not be published', async () => {
+    const {octokit, createComment} = mockClient([
+      {user: {login: 'reviewer'}, state: 'APPROVED'}
+    ])
+    createComment.mockReset().mockRejectedValue({status: 403})
+    const logger = mockLogger()
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger,
+      publishResultsComment: true
+    })
+    expect(createComment).toHaveBeenCalled()
+    expect(result.status).toBe('passed')
+    expect(result.results).toHaveLength(CHECK_NAMES.length)
+    expect(logger.warning).toHaveBeenCalledWith(
+      expect.stringContaining('Unable to publish the comment.')
+    )
+  })
+
+  it('returns an error when the GitHub API fail in a check', async () => {
+    const {octokit, paginate} = mockClient([])
+    const paginateMock = paginate.getMockImplementation()
+    paginate.mockImplementation(async (method, params) =>
+      method === octokit.rest.pulls.listReviews
+        ? Promise.reject({status: 502})
+        : paginateMock?.(method, params)
+    )
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger()
+    })
+    expect(result).toEqual({
+      pullNumber: 1,
+      status: 'error',
+      message:
+        'GitHub API is unavailable. {"status":502}\nHTTP response code 502.',
+      results: []
+    })
+  })
+
+  it('returns an error instead of throwing', async () => {
+    const {octokit, get} = mockClient([])
+    get.mockReset().mockRejectedValue(new Error('Not Found'))
+    const result = await checkPullRequest({
+      ...pull,
+      octokit,
+      logger: mockLogger()
+    })
+    expect(result).toEqual({
+      pullNumber: 1,
+      status: 'error',
+      message: 'Not Found',
+      results: []
+    })
+  })
+})
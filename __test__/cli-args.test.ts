@@ -0,0 +1,62 @@
+import {formatText, parseCliArguments} from '../lib/cli-args'
+
+describe('cli tests', () => {
+  it('parses the arguments and reads missing values from the environment', async () => {
+    const args = parseCliArguments(
+      ['--repo', 'octo/hello', '--pr', '12', '--json'],
+      {GITHUB_ACTOR: 'octocat', GH_TOKEN: 'secret'}
+    )
+    expect(args).toMatchObject({
+      owner: 'octo',
+      repo: 'hello',
+      pullNumber: 12,
+      actor: 'octocat',
+      token: 'secret',
+      apiRetries: 3,
+      json: true,
+      publish: false
+    })
+  })
+
+  it('rejects invalid arguments', async () => {
+    const env = {GITHUB_TOKEN: 'secret'}
+    expect(() =>
+      parseCliArguments(['--repo', 'octo', '--pr', '1', '--actor', 'a'], env)
+    ).toThrow('--repo must be in the format owner/name')
+    expect(() =>
+      parseCliArguments(['--repo', 'o/r', '--pr', 'x', '--actor', 'a'], env)
+    ).toThrow('--pr must be a pull request number')
+    expect(() =>
+      parseCliArguments(['--repo', 'o/r', '--pr', '1', '--actor', 'a'], {})
+    ).toThrow('GITHUB_TOKEN or GH_TOKEN')
+    expect(() => parseCliArguments(['--unknown'], env)).toThrow()
+  })
+
+  it('formats the results as text', async () => {
+    expect(
+      formatText(3, [
+        {
+          rule: 'require_code_owner',
+          status: 'passed',
+          message: 'OK',
+          details: {}
+        },
+        {
+          rule: 'require_code_owner_review',
+          status: 'failed',
+          message: 'Not approved.\nSecond line',
+          details: {missingApprovers: ['@a', '@b']}
+        }
+      ])
+    ).toEqual(
+      [
+        'Check of pull request 3',
+        '',
+        'PASS  require_code_owner: OK',
+        'FAIL  require_code_owner_review: Not approved.',
+        '      Second line',
+        '      Missing approval from one of: @a, @b'
+      ].join('\n')
+    )
+  })
+})
@@ -0,0 +1,46 @@
+import {findCodeOwnerEntry, parseCodeOwners} from '../lib/codeowners'
+
+const content = `# Default owners
+* @global-owner @org/team
+/docs/ @doctocat # inline comment
+/docs/my\\ file.md docs@example.com
+/apps/ @octocat
+/apps/github
+!/negated @octocat
+/invalid @not_valid!
+`
+
+describe('codeowners tests', () => {
+  it('uses the last matching pattern', async () => {
+    const {entries} = parseCodeOwners('CODEOWNERS', content)
+    expect(findCodeOwnerEntry('/README.md', entries)?.owners).toEqual([
+      '@global-owner',
+      '@org/team'
+    ])
+    expect(findCodeOwnerEntry('/docs/index.md', entries)?.owners).toEqual([
+      '@doctocat'
+    ])
+    expect(findCodeOwnerEntry('docs/my file.md', entries)?.owners).toEqual([
+      'docs@example.com'
+    ])
+    expect(findCodeOwnerEntry('/apps/github/main.ts', entries)?.owners).toEqual(
+      []
+    )
+    expect(findCodeOwnerEntry('/apps/other/main.ts', entries)?.owners).toEqual([
+      '@octocat'
+    ])
+  })
+
+  it('reports syntax errors with line numbers', async () => {
+    const {entries, errors} = parseCodeOwners('CODEOWNERS', content)
+    expect(entries).toHaveLength(5)
+    expect(errors).toEqual([
+      {line: 7, message: 'Negated pattern !/negated is not supported.'},
+      {
+        line: 8,
+        message:
+          'Invalid owner @not_valid!. An owner must be a @user, a @org/team or an email.'
+      }
+    ])
+  })
+})
@@ -0,0 +1,74 @@
+import {parseCodeTeams} from '../lib/codeteams'
+
+describe('codeteams tests', () => {
+  it('does not accept a count below 1', async () => {
+    const [entry] = parseCodeTeams('security:0 @alice')
+    expect(entry.label).toBe('security:0')
+    expect(entry.requiredApprovals).toBe(1)
+  })
+
+  it('parses labels', async () => {
+    const entries = parseCodeTeams(
+      [
+        '# Comment',
+        'require-team-review/security @octocat',
+        'type:bug @doctocat',
+        'security:2 @alice @bob @carol',
+        'dba:/migrations/**,/schema/** @x @y',
+        '?design:2:/ui/** @designer @artist'
+      ].join('\n')
+    ).reverse()
+    expect(
+      entries.map(({label, users, requiredApprovals, paths, optional}) => ({
+        label,
+        users,
+        requiredApprovals,
+        paths,
+        optional
+      }))
+    ).toEqual([
+      {
+        label: 'require-team-review/security',
+        users: ['@octocat'],
+        requiredApprovals: 1,
+        paths: [],
+        optional: false
+      },
+      {
+        label: 'type:bug',
+        users: ['@doctocat'],
+        requiredApprovals: 1,
+        paths: [],
+        optional: false
+      },
+      {
+        label: 'security',
+        users: ['@alice', '@bob', '@carol'],
+        requiredApprovals: 2,
+        paths: [],
+        optional: false
+      },
+      {
+        label: 'dba',
+        users: ['@x', '@y'],
+        requiredApprovals: 1,
+        paths: ['/migrations/**', '/schema/**'],
+        optional: false
+      },
+      {
+        label: 'design',
+        users: ['@designer', '@artist'],
+        requiredApprovals: 2,
+        paths: ['/ui/**'],
+        optional: true
+      }
+    ])
+  })
+
+  it('matches paths', async () => {
+    const [ui, all] = parseCodeTeams('all @x\ndesign:/ui/** @y')
+    expect(ui.match('ui/button.ts')).toBeTruthy()
+    expect(ui.match('api/ui/button.ts')).toBeFalsy()
+    expect(all.match('api/ui/button.ts')).toBeTruthy()
+  })
+})
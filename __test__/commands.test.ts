@@ -0,0 +1,16 @@
+import {parseCommand} from '../lib/commands'
+
+describe('commands tests', () => {
+  it('parses the first command at the start of a line', async () => {
+    expect(parseCommand('/check')).toBe('check')
+    expect(parseCommand('/merge please')).toBe('merge')
+    expect(parseCommand('Looks good.\r\n/explain\n/merge')).toBe('explain')
+  })
+
+  it('ignores comments without a command', async () => {
+    expect(parseCommand('')).toBeUndefined()
+    expect(parseCommand('Please /check this')).toBeUndefined()
+    expect(parseCommand('/checkout the branch')).toBeUndefined()
+    expect(parseCommand('/deploy')).toBeUndefined()
+  })
+})
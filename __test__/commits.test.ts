@@ -0,0 +1,79 @@
+import {
+  PullCommit,
+  checkAuthorDomain,
+  checkSignOff,
+  checkSignature,
+  getNoreplyLogin,
+  getTrailerUsers
+} from '../lib/commits'
+
+function commit(message: string, email = 'jane@example.com'): PullCommit {
+  return {
+    sha: 'abc',
+    message,
+    author: {name: 'Jane', email},
+    committer: {name: 'Jane', email},
+    verified: true,
+    verificationReason: 'valid',
+    parents: 1
+  }
+}
+
+describe('commits tests', () => {
+  it('gets the users of the trailers', async () => {
+    const message =
+      'Add feature\n\nSigned-off-by: Jane <jane@example.com>\nco-authored-by: John Doe <john@example.com>\r\n'
+    expect(getTrailerUsers(message, 'Co-authored-by')).toEqual([
+      {name: 'John Doe', email: 'john@example.com'}
+    ])
+    expect(getTrailerUsers('Signed-off-by: Jane', 'Signed-off-by')).toEqual([])
+  })
+
+  it('gets the user of a noreply email', async () => {
+    expect(getNoreplyLogin('42+octo-cat@users.noreply.github.com')).toBe(
+      'octo-cat'
+    )
+    expect(getNoreplyLogin('octocat@users.noreply.github.com')).toBe('octocat')
+    expect(getNoreplyLogin('octocat@example.com')).toBeUndefined()
+  })
+
+  it('checks the signature', async () => {
+    expect(checkSignature(commit('Fix'))).toBeUndefined()
+    expect(
+      checkSignature({
+        ...commit('Fix'),
+        verified: false,
+        verificationReason: 'unsigned'
+      })
+    ).toBe('is not signed')
+    expect(
+      checkSignature({
+        ...commit('Fix'),
+        verified: false,
+        verificationReason: 'bad_email'
+      })
+    ).toBe('has a signature that is not verified (bad_email)')
+  })
+
+  it('checks the email domain of the author', async () => {
+    expect(
+      checkAuthorDomain(commit('Fix', 'Jane@Example.com'), ['example.com'])
+    ).toBeUndefined()
+    expect(
+      checkAuthorDomain(commit('Fix', 'jane@dev.example.com'), ['example.com'])
+    ).toBe(
+      'is authored by jane@dev.example.com, but the email domain must be one of example.com'
+    )
+  })
+
+  it('checks the sign-off of the author', async () => {
+    expect(
+      checkSignOff(commit('Fix\n\nSigned-off-by: Jane <JANE@example.com>'))
+    ).toBeUndefined()
+    expect(checkSignOff(commit('Fix'))).toBe('has no Signed-off-by trailer')
+    expect(
+      checkSignOff(commit('Fix\n\nSigned-off-by: John <john@example.com>'))
+    ).toBe('has no Signed-off-by trailer for the author jane@example.com')
+    expect(checkSignOff({...commit('Merge main'), parents: 2})).toBeUndefined()
+  })
+})
@@ -0,0 +1,57 @@
+import {Octokit} from '@octokit/rest'
+
+import {Helper} from '../lib/helper'
+
+function mockOctokit(mergeable: (boolean | null)[]): {
+  octokit: Octokit
+  get: jest.Mock
+} {
+  const get = jest.fn()
+  for (const value of mergeable) {
+    get.mockResolvedValueOnce({
+      data: {number: 1, merged: false, mergeable: value}
+    })
+  }
+  const octokit = {rest: {pulls: {get}}} as unknown as Octokit
+  return {octokit, get}
+}
+
+describe('helper tests', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('polls until the mergeable state is known', async () => {
+    const {octokit, get} = mockOctokit([null, null, true])
+    const promise = new Helper(octokit).waitForMergeableState(
+      'owner',
+      'repo',
+      1,
+      60
+    )
+    await jest.advanceTimersByTimeAsync(2000)
+    expect(get).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(4000)
+    const pr = await promise
+    expect(get).toHaveBeenCalledTimes(3)
+    expect(pr.mergeable).toBe(true)
+  })
+
+  it('stops polling when the timeout expire', async () => {
+    const {octokit, get} = mockOctokit([null, null, null, null])
+    const promise = new Helper(octokit).waitForMergeableState(
+      'owner',
+      'repo',
+      1,
+      5
+    )
+    await jest.advanceTimersByTimeAsync(5000)
+    const pr = await promise
+    expect(get).toHaveBeenCalledTimes(3)
+    expect(pr.mergeable).toBeNull()
+  })
+})
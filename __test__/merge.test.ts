@@ -0,0 +1,144 @@
+import {GitHubClient} from '../lib/client'
+import {Helper} from '../lib/helper'
+import {Logger} from '../lib/logger'
+import {MergeSettings, formatTemplate, mergePullRequest} from '../lib/merge'
+
+const logger: Logger = {
+  info: jest.fn(),
+  notice: jest.fn(),
+  warning: jest.fn(),
+  error: jest.fn()
+}
+
+function mockClient(
+  graphql: jest.Mock = jest.fn(),
+  mergeableState = 'blocked'
+): {
+  helper: Helper
+  merge: jest.Mock
+  deleteRef: jest.Mock
+} {
+  const get = jest.fn().mockResolvedValue({
+    data: {
+      number: 7,
+      node_id: 'PR_7',
+      title: 'Add feature',
+      body: 'Details',
+      merged: false,
+      mergeable_state: mergeableState,
+      user: {login: 'author'},
+      head: {sha: 'abc', ref: 'feature', repo: {full_name: 'owner/repo'}},
+      base: {ref: 'main'}
+    }
+  })
+  const merge = jest.fn().mockResolvedValue({data: {merged: true}})
+  const deleteRef = jest.fn().mockResolvedValue({})
+  const octokit = {
+    rest: {pulls: {get, merge}, git: {deleteRef}},
+    graphql
+  } as unknown as GitHubClient
+  return {helper: new Helper(octokit, logger), merge, deleteRef}
+}
+
+const settings: MergeSettings = {
+  mode: 'merge',
+  method: 'squash',
+  commitTitle: '{title} (#{number})',
+  commitMessage: '',
+  deleteHeadBranch: true
+}
+
+describe('merge tests', () => {
+  it('replaces the known placeholders', async () => {
+    const values = {
+      number: 1,
+      title: 'Fix',
+      body: '',
+      author: 'octocat',
+      head: 'fix',
+      base: 'main'
+    }
+    expect(formatTemplate('{title} by {author} {unknown}', values)).toBe(
+      'Fix by octocat {unknown}'
+    )
+  })
+
+  it('merges the head commit that was checked', async () => {
+    const {helper, merge, deleteRef} = mockClient()
+    await expect(
+      mergePullRequest(helper, logger, 'owner', 'repo', 7, 'abc', settings)
+    ).resolves.toBe('merged')
+    expect(merge).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sha: 'abc',
+        merge_method: 'squash',
+        commit_title: 'Add feature (#7)',
+        commit_message: undefined
+      })
+    )
+    expect(deleteRef).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      ref: 'heads/feature'
+    })
+  })
+
+  it('does not merge when the head commit changed', async () => {
+    const {helper, merge} = mockClient()
+    await expect(
+      mergePullRequest(helper, logger, 'owner', 'repo', 7, 'def', settings)
+    ).rejects.toThrow('the head commit changed after def was checked')
+    expect(merge).not.toHaveBeenCalled()
+  })
+
+  it('enables auto-merge, or merges a pull request that can be merged now', async () => {
+    const graphql = jest.fn().mockResolvedValueOnce({})
+    const auto: MergeSettings = {
+      ...settings,
+      mode: 'auto',
+      deleteHeadBranch: false
+    }
+    const enabled = mockClient(graphql)
+    await expect(
+      mergePullRequest(enabled.helper, logger, 'owner', 'repo', 7, 'abc', auto)
+    ).resolves.toBe('auto_merge_enabled')
+    expect(graphql).toHaveBeenCalledWith(
+      expect.stringContaining('enablePullRequestAutoMerge'),
+      expect.objectContaining({
+        pullRequestId: 'PR_7',
+        mergeMethod: 'SQUASH',
+        expectedHeadOid: 'abc'
+      })
+    )
+    expect(enabled.merge).not.toHaveBeenCalled()
+
+    const clean = mockClient(graphql, 'clean')
+    await expect(
+      mergePullRequest(clean.helper, logger, 'owner', 'repo', 7, 'abc', auto)
+    ).resolves.toBe('merged')
+    expect(graphql).toHaveBeenCalledTimes(1)
+    expect(clean.merge).toHaveBeenCalled()
+
+    // A failed check that is not required don't block the merge
+    const unstable = mockClient(graphql, 'unstable')
+    await expect(
+      mergePullRequest(unstable.helper, logger, 'owner', 'repo', 7, 'abc', auto)
+    ).resolves.toBe('merged')
+    expect(graphql).toHaveBeenCalledTimes(1)
+  })
+
+  it('fails when auto-merge can not be enabled', async () => {
+    const graphql = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Auto merge is not allowed'))
+    const {helper} = mockClient(graphql)
+    await expect(
+      mergePullRequest(helper, logger, 'owner', 'repo', 7, 'abc', {
+        ...settings,
+        mode: 'auto'
+      })
+    ).rejects.toThrow(
+      'Unable to enable auto-merge of pull request 7. Auto merge is not allowed'
+    )
+  })
+})
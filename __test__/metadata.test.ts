@@ -0,0 +1,104 @@
+import {
+  CONVENTIONAL_TYPES,
+  checkBodySections,
+  checkConventionalTitle,
+  checkHeadBranch,
+  getLinkedIssues
+} from '../lib/metadata'
+
+describe('metadata tests', () => {
+  it('checks conventional commit titles', async () => {
+    expect(
+      checkConventionalTitle('feat(api)!: add v2', CONVENTIONAL_TYPES)
+    ).toBeUndefined()
+    expect(checkConventionalTitle('fix: typo', [])).toBeUndefined()
+    expect(checkConventionalTitle('Add feature', CONVENTIONAL_TYPES)).toBe(
+      'The title "Add feature" is not a conventional commit title, e.g. "feat(scope): description".'
+    )
+    expect(checkConventionalTitle('wip: stuff', ['feat', 'fix'])).toBe(
+      'The title "wip: stuff" has the type wip, but the type must be one of feat, fix.'
+    )
+  })
+
+  it('checks that the body sections exist and are not empty', async () => {
+    const body = [
+      '## Summary',
+      'Add a feature.',
+      '',
+      '## Testing',
+      '<!-- Describe how the change was tested -->',
+      '',
+      '## Notes'
+    ].join('\r\n')
+    expect(
+      checkBodySections(body, ['## Summary', '## Testing', '## Risks'])
+    ).toEqual([
+      'The "## Testing" section of the body is empty.',
+      'The body has no "## Risks" section.'
+    ])
+  })
+
+  it('includes the sub-headings in a section', async () => {
+    const body = [
+      '## Testing',
+      '### Unit tests',
+      'Added tests.',
+      '# Notes',
+      '## Risks',
+      '## Rollback',
+      'Revert.'
+    ].join('\n')
+    expect(
+      checkBodySections(body, ['## Testing', '## Risks', 'Notes'])
+    ).toEqual([
+      'The "## Risks" section of the body is empty.',
+      'The body has no "Notes" section.'
+    ])
+  })
+
+  it('checks the head branch name', async () => {
+    expect(checkHeadBranch('feature/login', ['feature/*'])).toBeUndefined()
+    expect(checkHeadBranch('login', ['feature/*', 'fix/*'])).toBe(
+      "The head branch login don't match any of the patterns feature/*, fix/*."
+    )
+  })
+
+  it('finds the linked issues', async () => {
+    const body =
+      'Fixes #12, closes other/repo#3 and resolves https://github.com/owner/repo/issues/4.\nSee #5. Fixes #12'
+    expect(getLinkedIssues(body, 'owner', 'repo')).toEqual([
+      'owner/repo#12',
+      'other/repo#3',
+      'owner/repo#4'
+    ])
+    expect(getLinkedIssues('Prefix #12', 'owner', 'repo')).toEqual([])
+  })
+
+  it('ignores linked issues in comments and code blocks', async () => {
+    expect(
+      getLinkedIssues(
+        '<!-- Link the issue, e.g. Fixes #123 -->',
+        'owner',
+        'repo'
+      )
+    ).toEqual([])
+    const body = [
+      '```',
+      'git commit -m "Fixes #1"',
+      '```',
+      'Closes #2',
+      '~~~~',
+      'Resolves #3',
+      '~~~',
+      'Fixes #4',
+      '~~~~',
+      'Fixes #5',
+      '```',
+      'Fixes #6'
+    ].join('\n')
+    expect(getLinkedIssues(body, 'owner', 'repo')).toEqual([
+      'owner/repo#2',
+      'owner/repo#5'
+    ])
+  })
+})
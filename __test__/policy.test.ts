@@ -0,0 +1,55 @@
+import {parsePolicy} from '../lib/policy'
+
+const policy = `
+rules:
+  require_code_owner_review: true
+  required_approvals: 2
+branches:
+  - pattern: main
+    rules:
+      required_mergeable_state: ["clean"]
+  - pattern: release/*
+    rules:
+      required_approvals: 3
+`
+
+describe('policy tests', () => {
+  it('applies the rules of matching branches', async () => {
+    expect(parsePolicy(policy, 'main')).toEqual({
+      requireCodeOwnerReview: true,
+      requiredApprovals: 2,
+      requiredMergeableState: ['clean']
+    })
+    expect(parsePolicy(policy, 'release/1.0')).toEqual({
+      requireCodeOwnerReview: true,
+      requiredApprovals: 3
+    })
+    expect(parsePolicy(policy, 'release/1.0/hotfix')).toEqual({
+      requireCodeOwnerReview: true,
+      requiredApprovals: 2
+    })
+    expect(parsePolicy('', 'main')).toEqual({})
+  })
+
+  it('reports every invalid value', async () => {
+    const invalid = `
+rules:
+  require_code_owner: "yes"
+  required_approvals: 0
+  unknown_rule: true
+  break_glass_checks: [require_code_owner_review, require_codeowner_review]
+branches:
+  - rules: {}
+`
+    expect(() => parsePolicy(invalid, 'main')).toThrow(
+      [
+        'The policy file .github/check-pull-request.yml is not valid:',
+        '- rules.require_code_owner must be true or false.',
+        '- rules.required_approvals must be a positive integer.',
+        '- rules.unknown_rule is not a known rule.',
+        '- rules.break_glass_checks has unknown checks: require_codeowner_review.',
+        '- branches[0].pattern must be a branch name or pattern.'
+      ].join('\n')
+    )
+  })
+})
@@ -0,0 +1,25 @@
+import {parseProtectedPaths} from '../lib/protected-paths'
+
+describe('protected paths tests', () => {
+  it('matches paths like a CODEOWNERS file', async () => {
+    const [workflows, codeowners] = parseProtectedPaths([
+      '/.github/workflows/** @org/platform',
+      'CODEOWNERS @admin user@example.com'
+    ])
+    expect(workflows.owners).toEqual(['@org/platform'])
+    expect(workflows.match('.github/workflows/ci.yml')).toBe(true)
+    expect(workflows.match('docs/.github/workflows/ci.yml')).toBe(false)
+    expect(codeowners.owners).toEqual(['@admin', 'user@example.com'])
+    expect(codeowners.match('.github/CODEOWNERS')).toBe(true)
+  })
+
+  it('reports every invalid entry', async () => {
+    expect(() => parseProtectedPaths(['CODETEAMS', 'src/** admin'])).toThrow(
+      [
+        'The protected paths are not valid:',
+        '- "CODETEAMS" must be a path pattern followed by owners.',
+        '- "src/** admin" has invalid owners admin, an owner must be a @user, @org/team or email.'
+      ].join('\n')
+    )
+  })
+})
@@ -0,0 +1,172 @@
+import {Octokit} from '@octokit/rest'
+
+import {Helper} from '../lib/helper'
+import {COMMENT_MARKER, publishCheckRun, publishComment} from '../lib/publish'
+import {RuleResult} from '../lib/rule-runner'
+
+const results: RuleResult[] = [
+  {
+    rule: 'require_code_owner_review',
+    status: 'failed',
+    message: 'Pull request 1 has not been approved by a code owner (@octocat).',
+    details: {
+      missingApprovers: ['@octocat'],
+      codeOwnerRules: [
+        {path: '/docs/', owners: ['@octocat'], files: ['/docs/README.md']}
+      ]
+    }
+  },
+  {
+    rule: 'required_mergeable_state',
+    status: 'passed',
+    message: 'Pull request 1 is in a clean state.',
+    details: {}
+  }
+]
+
+function mockOctokit(
+  checkRuns: {id: number; head_sha: string}[],
+  comments: {id: number; body: string; user?: {login: string; type: string}}[],
+  tokenUser?: string
+): {
+  octokit: Octokit
+  checks: Record<string, jest.Mock>
+  issues: Record<string, jest.Mock>
+} {
+  const checks = {
+    listForRef: jest.fn().mockResolvedValue({
+      data: {total_count: checkRuns.length, check_runs: checkRuns}
+    }),
+    create: jest.fn().mockResolvedValue({data: {id: 10}}),
+    update: jest.fn().mockResolvedValue({data: {}})
+  }
+  const issues = {
+    listComments: jest.fn(),
+    createComment: jest.fn().mockResolvedValue({data: {id: 20}}),
+    updateComment: jest.fn().mockResolvedValue({data: {}})
+  }
+  const users = {
+    getAuthenticated: tokenUser
+      ? jest.fn().mockResolvedValue({data: {login: tokenUser}})
+      : jest.fn().mockRejectedValue({status: 403})
+  }
+  const octokit = {
+    rest: {checks, issues, users},
+    paginate: jest.fn().mockResolvedValue(comments)
+  } as unknown as Octokit
+  return {octokit, checks, issues}
+}
+
+const bot = {login: 'github-actions[bot]', type: 'Bot'}
+
+describe('publish tests', () => {
+  it('creates a check run', async () => {
+    const {octokit, checks} = mockOctokit([], [])
+    const id = await publishCheckRun(
+      new Helper(octokit),
+      'owner',
+      'repo',
+      'abc123',
+      results
+    )
+    expect(id).toBe(10)
+    expect(checks.update).not.toHaveBeenCalled()
+    expect(checks.create).toHaveBeenCalledTimes(1)
+    const params = checks.create.mock.calls[0][0]
+    expect(params.head_sha).toBe('abc123')
+    expect(params.conclusion).toBe('failure')
+    expect(params.output.title).toBe('1 of 2 checks failed')
+    expect(params.output.annotations).toEqual([
+      expect.objectContaining({
+        path: 'docs/README.md',
+        annotation_level: 'failure'
+      })
+    ])
+  })
+
+  it('updates an existing check run', async () => {
+    const {octokit, checks} = mockOctokit([{id: 5, head_sha: 'abc123'}], [])
+    const id = await publishCheckRun(
+      new Helper(octokit),
+      'owner',
+      'repo',
+      'abc123',
+      results.slice(1)
+    )
+    expect(id).toBe(5)
+    expect(checks.create).not.toHaveBeenCalled()
+    expect(checks.update).toHaveBeenCalledTimes(1)
+    const params = checks.update.mock.calls[0][0]
+    expect(params.check_run_id).toBe(5)
+    expect(params.conclusion).toBe('success')
+  })
+
+  it('creates a sticky comment', async () => {
+    const {octokit, issues} = mockOctokit([], [{id: 1, body: 'LGTM'}])
+    const id = await publishComment(
+      new Helper(octokit),
+      'owner',
+      'repo',
+      1,
+      results
+    )
+    expect(id).toBe(20)
+    expect(issues.updateComment).not.toHaveBeenCalled()
+    const params = issues.createComment.mock.calls[0][0]
+    expect(params.issue_number).toBe(1)
+    expect(params.body.startsWith(COMMENT_MARKER)).toBeTruthy()
+    expect(params.body).toContain('Approval from one of: @octocat')
+  })
+
+  it('updates the sticky comment', async () => {
+    const {octokit, issues} = mockOctokit(
+      [],
+      [
+        {id: 1, body: 'LGTM'},
+        {id: 2, body: `${COMMENT_MARKER}\nold`, user: bot}
+      ]
+    )
+    const id = await publishComment(
+      new Helper(octokit),
+      'owner',
+      'repo',
+      1,
+      results.slice(1)
+    )
+    expect(id).toBe(2)
+    expect(issues.createComment).not.toHaveBeenCalled()
+    const params = issues.updateComment.mock.calls[0][0]
+    expect(params.comment_id).toBe(2)
+    expect(params.body).toContain('All checks passed.')
+  })
+  it('only updates a sticky comment by the token user', async () => {
+    const comments = [
+      {
+        id: 1,
+        body: `${COMMENT_MARKER}\nfake`,
+        user: {login: 'contributor', type: 'User'}
+      },
+      {id: 2, body: `${COMMENT_MARKER}\nold`, user: bot},
+      {
+        id: 3,
+        body: `${COMMENT_MARKER}\nold`,
+        user: {login: 'ci-user', type: 'User'}
+      }
+    ]
+    const app = mockOctokit([], comments)
+    await expect(
+      publishComment(new Helper(app.octokit), 'owner', 'repo', 1, results)
+    ).resolves.toBe(2)
+
+    const pat = mockOctokit([], comments, 'ci-user')
+    await expect(
+      publishComment(new Helper(pat.octokit), 'owner', 'repo', 1, results)
+    ).resolves.toBe(3)
+
+    const other = mockOctokit([], comments.slice(0, 1))
+    await expect(
+      publishComment(new Helper(other.octokit), 'owner', 'repo', 1, results)
+    ).resolves.toBe(20)
+    expect(other.issues.updateComment).not.toHaveBeenCalled()
+  })
+})
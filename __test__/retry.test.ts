@@ -0,0 +1,114 @@
+import {Octokit} from '@octokit/rest'
+
+import {getErrorCategory, processError, wrapError} from '../lib/error-tools'
+import {addRetry} from '../lib/retry'
+
+function mockFetch(responses: Response[]): jest.Mock {
+  const fetch = jest.fn()
+  for (const response of responses) {
+    fetch.mockResolvedValueOnce(response)
+  }
+  return fetch
+}
+
+function jsonResponse(
+  status: number,
+  headers: Record<string, string> = {},
+  message = `Status ${status}`
+): Response {
+  return new Response(JSON.stringify({message}), {
+    status,
+    headers: {'content-type': 'application/json', ...headers}
+  })
+}
+
+describe('retry tests', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({now: 1700000000000})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('retries server errors with backoff', async () => {
+    const fetch = mockFetch([
+      jsonResponse(502),
+      jsonResponse(503),
+      jsonResponse(200)
+    ])
+    const octokit = new Octokit({request: {fetch}})
+    addRetry(octokit, 3)
+    const promise = octokit.rest.users.getAuthenticated()
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(fetch).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(2000)
+    const {status} = await promise
+    expect(status).toBe(200)
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('waits for the rate limit to reset', async () => {
+    const fetch = mockFetch([
+      jsonResponse(403, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(1700000000 + 10)
+      }),
+      jsonResponse(200)
+    ])
+    const octokit = new Octokit({request: {fetch}})
+    addRetry(octokit, 3)
+    const promise = octokit.rest.users.getAuthenticated()
+    await jest.advanceTimersByTimeAsync(10000)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(1000)
+    const {status} = await promise
+    expect(status).toBe(200)
+  })
+
+  it('waits a minute for a secondary rate limit', async () => {
+    const fetch = mockFetch([
+      jsonResponse(
+        403,
+        {'x-ratelimit-remaining': '4000'},
+        'You have exceeded a secondary rate limit. Please wait a few minutes before you try again.'
+      ),
+      jsonResponse(200)
+    ])
+    const octokit = new Octokit({request: {fetch}})
+    addRetry(octokit, 3)
+    const promise = octokit.rest.users.getAuthenticated()
+    await jest.advanceTimersByTimeAsync(59000)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(1000)
+    const {status} = await promise
+    expect(status).toBe(200)
+  })
+
+  it('classifies errors that are not retried', async () => {
+    const fetch = mockFetch([
+      jsonResponse(429, {'retry-after': '1'}),
+      jsonResponse(429, {'retry-after': '1'}),
+      jsonResponse(404)
+    ])
+    const octokit = new Octokit({request: {fetch}})
+    addRetry(octokit, 1)
+    const rateLimited = octokit.rest.users
+      .getAuthenticated()
+      .catch(error => processError(error))
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(await rateLimited).toMatch(/^GitHub API rate limit exceeded\./)
+    const notFound = await octokit.rest.users
+      .getAuthenticated()
+      .catch(error => processError(error))
+    expect(notFound).toMatch(/^GitHub API request failed\./)
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(processError(new Error('Not approved.'))).toBe('Not approved.')
+    const wrapped = wrapError({status: 502}, 'Unable to get reviews.')
+    expect(getErrorCategory(wrapped)).toBe('unavailable')
+    expect(processError(wrapped)).toBe(
+      'GitHub API is unavailable. Unable to get reviews. {"status":502}\nHTTP response code 502.'
+    )
+    expect(getErrorCategory(wrapError(new Error('Invalid')))).toBeUndefined()
+  })
+})
@@ -0,0 +1,28 @@
+export interface ApiUrls {
+  baseUrl: string
+  graphqlUrl: string
+}
+
+/**
+ * Get the REST and GraphQL API URLs. The api_url input take precedence over
+ * the GITHUB_API_URL and GITHUB_GRAPHQL_URL environment variables, which are
+ * set by the runner, also on GitHub Enterprise Server.
+ * @param apiUrl the REST API URL, e.g. https://github.example.com/api/v3
+ */
+export function getApiUrls(apiUrl?: string): ApiUrls {
+  if (apiUrl) {
+    const baseUrl = apiUrl.replace(/\/+$/, '')
+    // GitHub Enterprise Server use /api/v3 for REST and /api/graphql
+    const graphqlUrl = baseUrl.endsWith('/api/v3')
+      ? `${baseUrl.slice(0, -'/v3'.length)}/graphql`
+      : `${baseUrl}/graphql`
+    return {baseUrl, graphqlUrl}
+  }
+  const baseUrl = (
+    process.env.GITHUB_API_URL || 'https://api.github.com'
+  ).replace(/\/+$/, '')
+  return {
+    baseUrl,
+    graphqlUrl: process.env.GITHUB_GRAPHQL_URL || `${baseUrl}/graphql`
+  }
+}
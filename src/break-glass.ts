@@ -0,0 +1,65 @@
+import {Helper} from './helper'
+
+export const BREAK_GLASS_MARKER = '<!-- check-pull-request-break-glass -->'
+
+export interface BreakGlassOverride {
+  label: string
+  // The users that approved the override
+  approvers: string[]
+  // The checks that failed, but was bypassed
+  checks: string[]
+}
+
+/**
+ * Get the users that approved a break-glass override. The override is only
+ * active when the label is on the pull request and one of the break-glass
+ * approvers has approved the pull request.
+ * @param helper the helper for the GitHub API
+ * @param owner the owner of the repository
+ * @param repo the name of the repository
+ * @param pullNumber the pull request number
+ * @param prUser the user that opened the pull request
+ * @param label the break-glass label
+ * @param approvers the users and teams that can approve an override
+ * @param headSha when set, approvals for other commits are ignored
+ */
+export async function getBreakGlassApprovers(
+  helper: Helper,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  prUser: string,
+  label: string,
+  approvers: string[],
+  headSha?: string
+): Promise<string[]> {
+  const labels = await helper.getLabelsOnIssue(owner, repo, pullNumber)
+  if (!labels?.some(l => l.name === label)) {
+    return []
+  }
+  // The author can't approve a break-glass override of their own changes
+  const users = (await helper.resolveOwners(approvers)).filter(
+    u => u !== `@${prUser}`
+  )
+  if (users.length === 0) {
+    return []
+  }
+  return helper.getApprovers(owner, repo, pullNumber, users, prUser, {
+    headSha
+  })
+}
+
+export function formatOverride(
+  override: BreakGlassOverride,
+  headSha: string
+): string {
+  return [
+    '### ⚠️ Break-glass override',
+    '',
+    `The \`${override.label}\` label and an approval by ${override.approvers
+      .map(a => `@${a}`)
+      .join(', ')} bypassed these failed checks for commit ${headSha}:`,
+    '',
+    ...override.checks.map(c => `- \`${c}\``)
+  ].join('\n')
+}
@@ -1,234 +1,979 @@
-import {info, notice} from '@actions/core'
-import {context} from '@actions/github'
-import {Octokit} from '@octokit/rest'
-import fetch from 'node-fetch'
-
+import {
+  BREAK_GLASS_MARKER,
+  BreakGlassOverride,
+  formatOverride,
+  getBreakGlassApprovers
+} from './break-glass'
+import {GitHubClient} from './client'
+import {CodeOwnerEntry} from './codeowners'
+import {
+  PullCommit,
+  checkAuthorDomain,
+  checkSignOff,
+  checkSignature
+} from './commits'
+import {processError} from './error-tools'
 import {Helper} from './helper'
+import {Logger} from './logger'
+import {
+  checkBodySections,
+  checkConventionalTitle,
+  checkHeadBranch,
+  getLinkedIssues
+} from './metadata'
+import {hasPermission} from './permissions'
+import {CheckOptions, DEFAULT_OPTIONS, applyPolicy} from './policy'
+import {parseProtectedPaths} from './protected-paths'
+import {CHECK_RUN_NAME, publishCheckRun, publishComment} from './publish'
+import {evaluateRequiredChecks} from './required-checks'
+import {RuleOutcome, RuleResult, RuleRunner} from './rule-runner'
+import {sleep} from './wait'
+
+// Seconds between each check of pending required checks
+const REQUIRED_CHECKS_INTERVAL = 15
+
+// The number of files to list when too many lines are changed
+const MAX_LARGEST_FILES = 5
+
+// The error status mean that the checks could not run
+export type CheckStatus = 'passed' | 'failed' | 'error'
 
-interface CodeOwnerEntry {
-  path: string
-  owners: string[]
-  match: (path: string) => boolean
+export interface CheckResult {
+  pullNumber: number
+  status: CheckStatus
+  // The head commit that was checked, unknown if the pull request was not found
+  headSha?: string
+  // The failure or error message, empty when all checks passed
+  message: string
+  results: RuleResult[]
+  // Set when a break-glass override bypassed one or more failed checks
+  override?: BreakGlassOverride
 }
 
-export const checkPullRequest = async ({
+export type CheckParameters = Readonly<
+  {
+    owner: string
+    repo: string
+    actor: string
+    pullNumber: number
+    octokit: GitHubClient
+    logger: Logger
+    // A local policy that is applied before the policy file
+    config?: {path: string; content: string}
+    // Publish the results as a check run or comment, if enabled
+    publish?: boolean
+  } & Partial<CheckOptions>
+>
+
+const runChecks = async ({
+  owner,
+  repo,
+  actor,
   pullNumber,
-  requireCodeOwnersFile,
-  requireActorIsCodeOwner,
-  requireCodeOwnerReview,
-  requireCodeTeamsFile,
-  requireCodeTeamReview,
-  requireApprovedReview,
-  requiredMergeableState,
-  token
-}: Readonly<{
-  pullNumber: number
-  requireCodeOwnersFile: boolean
-  requireActorIsCodeOwner: boolean
-  requireCodeOwnerReview: boolean
-  requireCodeTeamsFile: boolean
-  requireCodeTeamReview: boolean
-  requireApprovedReview: boolean
-  requiredMergeableState: string[] | undefined
-  token: string
-}>): Promise<void> => {
-  const {owner, repo} = context.repo
-  const {actor} = context
-  const octokit = new Octokit({
-    auth: `token ${token || process.env.GITHUB_TOKEN}`,
-    baseUrl: 'https://api.github.com',
-    request: {
-      fetch
+  octokit,
+  logger,
+  config,
+  publish = true,
+  ...inputOptions
+}: CheckParameters): Promise<CheckResult> => {
+  const HelperApi = new Helper(octokit, logger)
+  const pr = await HelperApi.getPull(owner, repo, pullNumber)
+  if (!pr?.base.ref || !pr?.user?.login) {
+    throw new Error(`Unable to get pull request ${pullNumber}.`)
+  }
+  const baseRef = pr.base.ref
+  const {
+    requiredActorPermission,
+    requireCodeOwnersFile,
+    validateCodeOwners,
+    requireActorIsCodeOwner,
+    requireCodeOwnerReview,
+    requireCodeOwnerCoverage,
+    requireCodeTeamsFile,
+    requireCodeTeamReview,
+    requireApprovedReview,
+    requiredApprovals,
+    ignoreStaleApprovals,
+    ignoreContributorApprovals,
+    failOnChangesRequested,
+    protectedPaths,
+    maxChangedFiles,
+    maxChangedLines,
+    requiredMergeableState,
+    mergeableStateTimeout,
+    requiredChecks,
+    requiredChecksTimeout,
+    requireConventionalTitle,
+    conventionalTitleTypes,
+    requiredBodySections,
+    requiredHeadBranch,
+    requireLinkedIssue,
+    requireVerifiedCommits,
+    allowedAuthorDomains,
+    requireSignOff,
+    breakGlassLabel,
+    breakGlassApprovers,
+    breakGlassChecks,
+    failFast,
+    publishResultsCheckRun,
+    publishResultsComment
+  } = await applyPolicy(
+    HelperApi,
+    owner,
+    repo,
+    baseRef,
+    {...DEFAULT_OPTIONS, ...inputOptions},
+    logger,
+    config
+  )
+  const prUser = pr.user.login
+  const getCommits = async (): Promise<PullCommit[]> => {
+    const commits = await HelperApi.getPullCommits(owner, repo, pullNumber)
+    if (commits.length < pr.commits) {
+      throw new Error(
+        `Pull request ${pullNumber} has ${pr.commits} commits, but GitHub only list ${commits.length} of them. The commits that are not listed can't be checked.`
+      )
+    }
+    return commits
+  }
+  let contributors: string[] | undefined
+  if (ignoreContributorApprovals) {
+    await getCommits()
+    contributors = await HelperApi.getPullContributors(owner, repo, pullNumber)
+    if (!contributors.includes(prUser)) {
+      contributors.push(prUser)
     }
-  })
+    logger.info(
+      `Approvals by the contributors of pull request ${pullNumber} are ignored: ${contributors.join(
+        ', '
+      )}.`
+    )
+  }
+  const reviewOptions = {
+    headSha: ignoreStaleApprovals ? pr.head.sha : undefined,
+    ignoredReviewers: contributors
+  }
+  const runner = new RuleRunner(failFast, logger)
 
-  const HelperApi = new Helper(octokit)
-  const pr = await HelperApi.getPull(owner, repo, pullNumber)
-  if (pr?.base.ref && pr?.user?.login) {
-    let codeOwnerEntries: CodeOwnerEntry[] = []
-    let files: string[] = []
-    const prUser = pr?.user?.login
-    if (
-      requireCodeOwnersFile ||
-      requireActorIsCodeOwner ||
-      requireCodeOwnerReview
-    ) {
-      if (requireCodeOwnersFile) {
-        info('Check require_codeowners_file')
-      }
-      codeOwnerEntries = await HelperApi.getCodeOwners(owner, repo, pr.base.ref)
-      if (requireCodeOwnersFile && codeOwnerEntries.length === 0) {
-        throw new Error(
-          `Failed to get CODEOWNERS. This repository requires that a CODEOWNERS file exist in the ${pr?.base.ref} branch. About code owners: https://t.ly/8KUb`
-        )
-      } else if (requireCodeOwnersFile) {
-        info('Passed require_codeowners_file')
-      }
-      files = await HelperApi.getPullFiles(owner, repo, pullNumber)
-      if (requireActorIsCodeOwner) {
-        info('Check require_code_owner')
+  let overrideApprovers: string[] = []
+  if (breakGlassLabel && breakGlassChecks.length > 0) {
+    overrideApprovers = await getBreakGlassApprovers(
+      HelperApi,
+      owner,
+      repo,
+      pullNumber,
+      prUser,
+      breakGlassLabel,
+      breakGlassApprovers,
+      reviewOptions.headSha
+    )
+    if (overrideApprovers.length > 0) {
+      logger.warning(
+        `Break-glass override of pull request ${pullNumber} approved by ${overrideApprovers.join(
+          ', '
+        )}. These checks are bypassed if they fail: ${breakGlassChecks.join(
+          ', '
+        )}.`
+      )
+      runner.bypass(
+        breakGlassChecks,
+        `Bypassed by the ${breakGlassLabel} break-glass override, approved by ${overrideApprovers.join(
+          ', '
+        )}.`
+      )
+    }
+  }
+
+  const getCodeOwnerEntries = async (): Promise<CodeOwnerEntry[]> =>
+    HelperApi.getCodeOwners(owner, repo, baseRef)
+  const getFiles = async (): Promise<string[]> => {
+    const files = await HelperApi.getPullFiles(owner, repo, pullNumber)
+    if (files.length < pr.changed_files) {
+      throw new Error(
+        `Pull request ${pullNumber} change ${pr.changed_files} files, but GitHub only list ${files.length} of them. The files that are not listed can't be checked against the CODEOWNERS file.`
+      )
+    }
+    return files
+  }
+  const getCommitProblems = async (
+    check: (commit: PullCommit) => string | undefined
+  ): Promise<string[]> => {
+    const problems: string[] = []
+    for (const commit of await getCommits()) {
+      const problem = check(commit)
+      if (problem) {
+        problems.push(`- ${commit.sha} ${problem}`)
+      }
+    }
+    return problems
+  }
+  const noCodeOwners: RuleOutcome = {
+    status: 'skipped',
+    message: `Found no CODEOWNERS file in the ${baseRef} branch of the ${repo} repository. Without a CODEOWNERS file, the input parameters 'require_code_owner' and 'require_code_owner_review' has no effect.`
+  }
+
+  if (requiredActorPermission) {
+    await runner.run('required_actor_permission', async () => {
+      const permission = await HelperApi.getPermission(owner, repo, actor)
+      if (!hasPermission(permission, requiredActorPermission)) {
+        throw new Error(
+          `User ${actor} has the ${permission} permission in the ${repo} repository, but the ${requiredActorPermission} permission is required.`
+        )
+      }
+      return {
+        status: 'passed',
+        message: `User ${actor} has the ${permission} permission.`
+      }
+    })
+  } else {
+    runner.skip('required_actor_permission', 'Not enabled.')
+  }
+
+  if (requireCodeOwnersFile) {
+    await runner.run('require_codeowners_file', async () => {
+      const codeOwnerEntries = await getCodeOwnerEntries()
+      if (codeOwnerEntries.length === 0) {
+        throw new Error(
+          `Failed to get CODEOWNERS. This repository requires that a CODEOWNERS file exist in the ${baseRef} branch. About code owners: https://t.ly/8KUb`
+        )
+      }
+      return {status: 'passed', message: 'Found CODEOWNERS file.'}
+    })
+  } else {
+    runner.skip('require_codeowners_file', 'Not enabled.')
+  }
+
+  if (validateCodeOwners) {
+    await runner.run('validate_codeowners', async () => {
+      const codeOwnersFile = await HelperApi.getCodeOwnersFile(
+        owner,
+        repo,
+        baseRef
+      )
+      if (!codeOwnersFile) {
+        return noCodeOwners
+      }
+      const errors = await HelperApi.validateCodeOwners(codeOwnersFile)
+      if (errors.length > 0) {
+        throw new Error(
+          `The ${
+            codeOwnersFile.path
+          } file in the ${baseRef} branch is not valid:\n${errors
+            .map(e => `- Line ${e.line}: ${e.message}`)
+            .join('\n')}`
+        )
+      }
+      return {
+        status: 'passed',
+        message: `The ${codeOwnersFile.path} file is valid.`
+      }
+    })
+  } else {
+    runner.skip('validate_codeowners', 'Not enabled.')
+  }
+
+  if (requireActorIsCodeOwner) {
+    await runner.run('require_code_owner', async () => {
+      const codeOwnerEntries = await getCodeOwnerEntries()
+      if (codeOwnerEntries.length === 0) {
+        return noCodeOwners
+      }
+      const files = await getFiles()
+      if (files.length === 0) {
+        return {
+          status: 'skipped',
+          message: `Could not find any changed files in pull request ${pullNumber}. This is unexpected.`
+        }
+      }
+      const isOwner = await HelperApi.isActorOwner(
+        actor,
+        files,
+        codeOwnerEntries
+      )
+      if (!isOwner) {
+        throw new Error(
+          `User ${actor} don't own all the changed files of pull request ${pullNumber}.`
+        )
+      }
+      return {
+        status: 'passed',
+        message: `User ${actor} own all the changed files.`
+      }
+    })
+  } else {
+    runner.skip('require_code_owner', 'Not enabled.')
+  }
+
+  // A code owner review replace the require_approved_review check
+  let codeOwnerReviewed = false
+  if (requireCodeOwnerReview) {
+    const status = await runner.run(
+      'require_code_owner_review',
+      async details => {
+        const codeOwnerEntries = await getCodeOwnerEntries()
         if (codeOwnerEntries.length === 0) {
-          notice(
-            `Found no CODEOWNERS file in the ${pr?.base.ref} branch of the ${repo} repository. Without a CODEOWNERS file, the input parameters 'require_code_owner' and 'require_code_owner_review' has no effect.`
-          )
-        } else if (files) {
-          const isOwner = await HelperApi.isActorOwner(
-            actor,
-            files,
-            codeOwnerEntries
-          )
-          if (!isOwner) {
+          return noCodeOwners
+        }
+        const files = await getFiles()
+        const groups = await HelperApi.getPullCodeOwnerGroups(
+          files,
+          codeOwnerEntries
+        )
+        details.codeOwnerRules = groups
+        if (requireCodeOwnerCoverage) {
+          logger.info('Check require_code_owner_coverage')
+          const missing: string[] = []
+          details.missingApprovers = []
+          for (const group of groups) {
+            logger.info(
+              `Check approval for ${group.path} (${group.files.join(',')}).`
+            )
+            const hasReview =
+              group.owners.length > 0 &&
+              (await HelperApi.isReviewed(
+                owner,
+                repo,
+                pullNumber,
+                group.owners,
+                prUser,
+                reviewOptions
+              ))
+            if (!hasReview) {
+              details.missingApprovers.push(
+                ...group.owners.filter(
+                  o => !details.missingApprovers?.includes(o)
+                )
+              )
+              missing.push(
+                `- ${group.path} (${group.files.join(
+                  ','
+                )}) require approval by ${
+                  group.owners.length > 0
+                    ? group.owners.join(',')
+                    : 'a code owner, but no owner could be resolved'
+                }`
+              )
+            }
+          }
+          if (missing.length > 0) {
             throw new Error(
-              `User ${actor} don't own all the changed files of pull request ${pullNumber}.`
+              `Pull request ${pullNumber} has not been approved by a code owner for all changed paths:\n${missing.join(
+                '\n'
+              )}`
             )
           }
-        } else {
-          notice(
-            `Could not find any changed files in pull request ${pullNumber}. This is unexpected.`
+          return {
+            status: 'passed',
+            message: `All ${groups.length} owned paths has been approved by a code owner.`
+          }
+        }
+        const owners = await HelperApi.getPullCodeOwners(
+          files,
+          codeOwnerEntries
+        )
+        // Without owners any approval would count, e.g. when the token
+        // can't read the members of the owning teams
+        if (groups.length > 0 && owners.length === 0) {
+          throw new Error(
+            `Pull request ${pullNumber} can't be approved by a code owner, because no code owner of the changed files could be resolved (${groups
+              .map(g => g.path)
+              .join(
+                ','
+              )}). Make sure the token can read the members of the owning teams.`
+          )
+        }
+        const hasReview = await HelperApi.isReviewed(
+          owner,
+          repo,
+          pullNumber,
+          owners,
+          prUser,
+          reviewOptions
+        )
+        if (!hasReview) {
+          details.missingApprovers = owners
+          throw new Error(
+            `Pull request ${pullNumber} has not been approved by a code owner (${owners.join(
+              ','
+            )}).`
           )
         }
-        info('Passed require_code_owner')
+        return {status: 'passed', message: 'Approved by a code owner.'}
       }
-    }
-    if (requireCodeOwnerReview && codeOwnerEntries.length !== 0) {
-      info('Check require_code_owner_review')
-      const owners = await HelperApi.getPullCodeOwners(files, codeOwnerEntries)
-      const hasReview = await HelperApi.isReviewed(
+    )
+    codeOwnerReviewed = status !== 'skipped'
+  } else {
+    runner.skip('require_code_owner_review', 'Not enabled.')
+  }
+
+  // One code owner approval can't replace more than one required approval
+  if (requireApprovedReview && codeOwnerReviewed && requiredApprovals === 1) {
+    runner.skip(
+      'require_approved_review',
+      'Replaced by require_code_owner_review.'
+    )
+  } else if (requireApprovedReview) {
+    await runner.run('require_approved_review', async details => {
+      details.approvers = await HelperApi.getApprovers(
         owner,
         repo,
         pullNumber,
-        owners,
-        prUser
+        [],
+        prUser,
+        reviewOptions
       )
-      if (!hasReview) {
+      if (details.approvers.length < requiredApprovals) {
         throw new Error(
-          `Pull request ${pullNumber} has not been approved by a code owner (${owners.join(
-            ','
-          )}).`
+          requiredApprovals > 1
+            ? `Pull request ${pullNumber} has not been approved by ${requiredApprovals} reviewers.`
+            : `Pull request ${pullNumber} has not been approved.`
         )
       }
-      info('Passed require_code_owner_review')
-    } else if (requireApprovedReview) {
-      info('Check require_approved_review')
-      const hasReview = await HelperApi.isReviewed(
+      return {status: 'passed', message: 'Approved.'}
+    })
+  } else {
+    runner.skip('require_approved_review', 'Not enabled.')
+  }
+
+  if (failOnChangesRequested) {
+    await runner.run('fail_on_changes_requested', async () => {
+      const reviewers = await HelperApi.getChangesRequested(
         owner,
         repo,
-        pullNumber,
-        [],
-        prUser
+        pullNumber
       )
-      if (!hasReview) {
-        throw new Error(`Pull request ${pullNumber} has not been approved.`)
-      }
-      info('Passed require_approved_review')
-    }
-    if (requireCodeTeamsFile || requireCodeTeamReview) {
-      if (requireCodeTeamsFile) {
-        info('Check require_codeteams_file')
+      if (reviewers.length > 0) {
+        throw new Error(
+          `Pull request ${pullNumber} has changes requested by ${reviewers.join(
+            ','
+          )}.`
+        )
       }
-      const codeTeamEntries = await HelperApi.getCodeTeams(
-        owner,
-        repo,
-        pr.base.ref
-      )
-      if (requireCodeTeamsFile && codeTeamEntries.length === 0) {
+      return {status: 'passed', message: 'No changes requested.'}
+    })
+  } else {
+    runner.skip('fail_on_changes_requested', 'Not enabled.')
+  }
+
+  if (requireCodeTeamsFile) {
+    await runner.run('require_codeteams_file', async () => {
+      const codeTeamEntries = await HelperApi.getCodeTeams(owner, repo, baseRef)
+      if (codeTeamEntries.length === 0) {
         throw new Error(
-          `Failed to get CODETEAMS. This repository requires that a CODETEAMS file exist in the ${pr?.base.ref} branch.`
+          `Failed to get CODETEAMS. This repository requires that a CODETEAMS file exist in the ${baseRef} branch.`
         )
-      } else if (requireCodeTeamsFile) {
-        info('Passed require_codeteams_file')
       }
+      return {status: 'passed', message: 'Found CODETEAMS file.'}
+    })
+  } else {
+    runner.skip('require_codeteams_file', 'Not enabled.')
+  }
+
+  if (requireCodeTeamReview) {
+    await runner.run('require_code_team_review', async details => {
+      const codeTeamEntries = await HelperApi.getCodeTeams(owner, repo, baseRef)
       if (codeTeamEntries.length === 0) {
-        notice(
-          `Found no CODETEAMS file in the ${pr?.base.ref} branch of the ${repo} repository. Without a CODETEAMS file, the input parameter 'require_code_team_review' has no effect.`
+        return {
+          status: 'skipped',
+          message: `Found no CODETEAMS file in the ${baseRef} branch of the ${repo} repository. Without a CODETEAMS file, the input parameter 'require_code_team_review' has no effect.`
+        }
+      }
+      const labels = await HelperApi.getLabelsOnIssue(owner, repo, pullNumber)
+      if (!labels) {
+        throw new Error(
+          `Pull request ${pullNumber} has no labels, but a code team review is required. Please add label according to the CODETEAMS file.`
         )
-      } else if (requireCodeTeamReview) {
-        info('Check require_code_team_review')
-        const labels = await HelperApi.getLabelsOnIssue(owner, repo, pullNumber)
-        if (!labels) {
-          throw new Error(
-            `Pull request ${pullNumber} has no labels, but a code team review is required. Please add label according to the CODETEAMS file.`
-          )
+      }
+      const missing: string[] = []
+      details.missingApprovers = []
+      let pullUser = ''
+      for (const entry of codeTeamEntries) {
+        if (entry.paths.length > 0) {
+          const files = await getFiles()
+          if (!files.some(f => entry.match(f.slice(1)))) {
+            logger.info(
+              `No changed files match ${entry.paths.join(',')}, code team ${
+                entry.label
+              } is not required.`
+            )
+            continue
+          }
         }
-        let pullUser = ''
-        for (const entry of codeTeamEntries) {
-          if (labels.findIndex(e => e.name === entry.label) === -1) {
-            throw new Error(
-              `Found required label ${entry.label} in the CODETEAMS file. Please add the label to pull request ${pullNumber} and request a review.`
+        if (labels.findIndex(e => e.name === entry.label) === -1) {
+          if (entry.optional) {
+            logger.info(
+              `Optional label ${entry.label} is not on pull request ${pullNumber}.`
             )
+            continue
           }
-          info(`Found label ${entry.label} in pull request ${pullNumber}.`)
-          pullUser = 'skipPrUserTest'
-          if (entry.users.length !== 1) {
-            pullUser = prUser
+          missing.push(
+            `Found required label ${entry.label} in the CODETEAMS file. Please add the label to pull request ${pullNumber} and request a review.`
+          )
+          continue
+        }
+        logger.info(`Found label ${entry.label} in pull request ${pullNumber}.`)
+        pullUser = 'skipPrUserTest'
+        if (entry.users.length !== 1) {
+          pullUser = prUser
+        }
+        const hasReview = await HelperApi.isReviewed(
+          owner,
+          repo,
+          pullNumber,
+          entry.users,
+          pullUser,
+          {...reviewOptions, requiredApprovals: entry.requiredApprovals}
+        )
+        if (!hasReview) {
+          details.missingApprovers.push(
+            ...entry.users.filter(u => !details.missingApprovers?.includes(u))
+          )
+          missing.push(
+            entry.requiredApprovals > 1
+              ? `Pull request ${pullNumber} has not been approved by ${
+                  entry.requiredApprovals
+                } ${entry.label} code team users (${entry.users.join(',')}).`
+              : `Pull request ${pullNumber} has not been approved by a ${
+                  entry.label
+                } code team user (${entry.users.join(',')}).`
+          )
+          if (failFast) {
+            break
           }
-          const hasReview = await HelperApi.isReviewed(
+        }
+      }
+      if (missing.length > 0) {
+        throw new Error(missing.join('\n'))
+      }
+      return {status: 'passed', message: 'Approved by all code teams.'}
+    })
+  } else {
+    runner.skip('require_code_team_review', 'Not enabled.')
+  }
+
+  if (protectedPaths.length > 0) {
+    await runner.run('protected_paths', async details => {
+      const entries = parseProtectedPaths(protectedPaths)
+      const files = await getFiles()
+      const missing: string[] = []
+      details.missingApprovers = []
+      let changed = 0
+      for (const entry of entries) {
+        const matching = files.filter(f => entry.match(f.slice(1)))
+        if (matching.length === 0) {
+          continue
+        }
+        changed++
+        logger.info(
+          `Protected path ${entry.pattern} match ${matching.join(',')}.`
+        )
+        const owners = await HelperApi.resolveOwners(entry.owners)
+        // Without owners any approval would count, e.g. when the token
+        // can't read the members of the team
+        const hasReview =
+          owners.length > 0 &&
+          (await HelperApi.isReviewed(
             owner,
             repo,
             pullNumber,
-            entry.users,
-            pullUser
+            owners,
+            prUser,
+            reviewOptions
+          ))
+        if (!hasReview) {
+          details.missingApprovers.push(
+            ...owners.filter(o => !details.missingApprovers?.includes(o))
           )
-          if (!hasReview) {
-            throw new Error(
-              `Pull request ${pullNumber} has not been approved by a ${
-                entry.label
-              } code team user (${entry.users.join(',')}).`
-            )
+          missing.push(
+            `- ${entry.pattern} (${matching.join(
+              ', '
+            )}) need approval from one of ${entry.owners.join(', ')}${
+              owners.length > 0 ? '' : ', but no owner could be resolved'
+            }`
+          )
+          if (failFast) {
+            break
           }
         }
-        info('Passed require_code_team_review')
       }
-    }
-    if (requiredMergeableState && requiredMergeableState.length > 0) {
-      info('Check required_mergeable_state')
-      if (pr.merged) {
-        info(`Pull request ${pullNumber} is merged.`)
-      } else if (pr.mergeable === null) {
+      if (missing.length > 0) {
+        throw new Error(
+          `Pull request ${pullNumber} change protected paths that are not approved:\n${missing.join(
+            '\n'
+          )}`
+        )
+      }
+      return {
+        status: 'passed',
+        message:
+          changed === 0
+            ? 'No protected paths are changed.'
+            : `The changes of ${changed} protected paths are approved.`
+      }
+    })
+  } else {
+    runner.skip('protected_paths', 'Not enabled.')
+  }
+
+  if (maxChangedFiles > 0) {
+    await runner.run('max_changed_files', async () => {
+      if (pr.changed_files > maxChangedFiles) {
+        throw new Error(
+          `Pull request ${pullNumber} change ${pr.changed_files} files, but at most ${maxChangedFiles} files can be changed. Split the pull request into smaller pull requests.`
+        )
+      }
+      return {
+        status: 'passed',
+        message: `Pull request ${pullNumber} change ${pr.changed_files} of at most ${maxChangedFiles} files.`
+      }
+    })
+  } else {
+    runner.skip('max_changed_files', 'Not enabled.')
+  }
+
+  if (maxChangedLines > 0) {
+    await runner.run('max_changed_lines', async () => {
+      const changes = await HelperApi.getPullFileChanges(
+        owner,
+        repo,
+        pullNumber
+      )
+      const lines = pr.additions + pr.deletions
+      if (lines > maxChangedLines) {
+        const largest = changes
+          .sort((a, b) => b.additions + b.deletions - a.additions - a.deletions)
+          .slice(0, MAX_LARGEST_FILES)
+          .map(c => `- ${c.path}: +${c.additions} -${c.deletions}`)
+        throw new Error(
+          `Pull request ${pullNumber} change ${lines} lines (+${
+            pr.additions
+          } -${
+            pr.deletions
+          }), but at most ${maxChangedLines} lines can be changed. The largest changes are:\n${largest.join(
+            '\n'
+          )}`
+        )
+      }
+      return {
+        status: 'passed',
+        message: `Pull request ${pullNumber} change ${lines} of at most ${maxChangedLines} lines.`
+      }
+    })
+  } else {
+    runner.skip('max_changed_lines', 'Not enabled.')
+  }
+
+  if (requiredMergeableState && requiredMergeableState.length > 0) {
+    await runner.run('required_mergeable_state', async () => {
+      // GitHub compute the mergeable state in the background after a push
+      const current =
+        pr.mergeable === null && !pr.merged && mergeableStateTimeout > 0
+          ? await HelperApi.waitForMergeableState(
+              owner,
+              repo,
+              pullNumber,
+              mergeableStateTimeout
+            )
+          : pr
+      if (current.merged) {
+        return {
+          status: 'passed',
+          message: `Pull request ${pullNumber} is merged.`
+        }
+      } else if (current.mergeable === null) {
         throw new Error(
           `The mergable state of pull request ${pullNumber} is unknown.`
         )
-      } else if (pr.mergeable) {
-        let merge_message = ''
-        switch (pr.mergeable_state) {
-          case 'clean':
-            merge_message = 'is in a clean state'
-            break
-          case 'has_hooks':
-            merge_message = 'has a passing commit status with pre-receive hooks'
-            break
-          case 'unstable':
-            merge_message = 'has a non-passing commit status (unstable)'
-            break
-          case 'behind':
-            merge_message = 'has out of date head ref'
-            break
-          case 'blocked':
-            merge_message = 'is blocked'
-            break
-          case 'dirty':
-            merge_message =
-              'is dirty, the merge commit cannot be cleanly created'
-            break
-          case 'draft':
-            merge_message = 'is blocked due to the pull request being a draft'
-            break
-          default:
-            merge_message = 'is in a undetermined state'
-            break
+      } else if (!current.mergeable) {
+        throw new Error(`Pull request ${pullNumber} is not mergable.`)
+      }
+      let merge_message = ''
+      switch (current.mergeable_state) {
+        case 'clean':
+          merge_message = 'is in a clean state'
+          break
+        case 'has_hooks':
+          merge_message = 'has a passing commit status with pre-receive hooks'
+          break
+        case 'unstable':
+          merge_message = 'has a non-passing commit status (unstable)'
+          break
+        case 'behind':
+          merge_message = 'has out of date head ref'
+          break
+        case 'blocked':
+          merge_message = 'is blocked'
+          break
+        case 'dirty':
+          merge_message = 'is dirty, the merge commit cannot be cleanly created'
+          break
+        case 'draft':
+          merge_message = 'is blocked due to the pull request being a draft'
+          break
+        default:
+          merge_message = 'is in a undetermined state'
+          break
+      }
+      if (!requiredMergeableState.includes(current.mergeable_state)) {
+        throw new Error(`Pull request ${pullNumber} ${merge_message}.`)
+      }
+      return {
+        status: 'passed',
+        message: `Pull request ${pullNumber} ${merge_message}.`
+      }
+    })
+  } else {
+    runner.skip('required_mergeable_state', 'Not enabled.')
+  }
+
+  if (requiredChecks && requiredChecks.length > 0) {
+    await runner.run('required_checks', async () => {
+      const started = Date.now()
+      for (;;) {
+        const checks = (
+          await HelperApi.getCommitChecks(owner, repo, pr.head.sha)
+        ).filter(c => c.name !== CHECK_RUN_NAME)
+        const result = evaluateRequiredChecks(checks, requiredChecks)
+        const problems: string[] = [
+          ...result.missing.map(c => `- ${c} is missing`),
+          ...result.failed.map(c => `- ${c} has failed`),
+          ...result.pending.map(c => `- ${c} is pending`)
+        ]
+        if (problems.length === 0) {
+          return {
+            status: 'passed',
+            message: `The required checks has succeeded (${result.passed.join(
+              ','
+            )}).`
+          }
         }
-        if (requiredMergeableState.includes(pr.mergeable_state)) {
-          info(`Pull request ${pullNumber} ${merge_message}.`)
-        } else {
-          throw new Error(`Pull request ${pullNumber} ${merge_message}.`)
+        const elapsed = (Date.now() - started) / 1000
+        // A missing check may not have been created yet, e.g. right after
+        // a push, so wait for it like a pending check
+        if (result.failed.length > 0 || elapsed >= requiredChecksTimeout) {
+          throw new Error(
+            `The required checks has not succeeded for commit ${
+              pr.head.sha
+            } of pull request ${pullNumber}:\n${problems.join('\n')}`
+          )
         }
-      } else {
-        throw new Error(`Pull request ${pullNumber} is not mergable.`)
+        logger.info(
+          `Wait for missing and pending checks (${[
+            ...result.missing,
+            ...result.pending
+          ].join(',')}), ${Math.round(
+            elapsed
+          )} of ${requiredChecksTimeout} seconds.`
+        )
+        await sleep(
+          Math.min(REQUIRED_CHECKS_INTERVAL, requiredChecksTimeout - elapsed) *
+            1000
+        )
       }
-      info('Passed required_mergeable_state')
-    }
+    })
   } else {
-    throw new Error(`Unable to get pull request ${pullNumber}.`)
+    runner.skip('required_checks', 'Not enabled.')
+  }
+
+  if (requireConventionalTitle) {
+    await runner.run('require_conventional_title', async () => {
+      const problem = checkConventionalTitle(pr.title, conventionalTitleTypes)
+      if (problem) {
+        throw new Error(problem)
+      }
+      return {status: 'passed', message: 'The title is a conventional title.'}
+    })
+  } else {
+    runner.skip('require_conventional_title', 'Not enabled.')
+  }
+
+  if (requiredBodySections.length > 0) {
+    await runner.run('required_body_sections', async () => {
+      const problems = checkBodySections(pr.body ?? '', requiredBodySections)
+      if (problems.length > 0) {
+        throw new Error(
+          `The body of pull request ${pullNumber} is missing required sections:\n${problems
+            .map(p => `- ${p}`)
+            .join('\n')}`
+        )
+      }
+      return {
+        status: 'passed',
+        message: 'The body has the required sections.'
+      }
+    })
+  } else {
+    runner.skip('required_body_sections', 'Not enabled.')
+  }
+
+  if (requiredHeadBranch.length > 0) {
+    await runner.run('required_head_branch', async () => {
+      const problem = checkHeadBranch(pr.head.ref, requiredHeadBranch)
+      if (problem) {
+        throw new Error(problem)
+      }
+      return {
+        status: 'passed',
+        message: `The head branch ${pr.head.ref} has a valid name.`
+      }
+    })
+  } else {
+    runner.skip('required_head_branch', 'Not enabled.')
+  }
+
+  if (requireLinkedIssue) {
+    await runner.run('require_linked_issue', async () => {
+      // GitHub only link the issues in the body when the base branch is the
+      // default branch, so the body is also checked
+      const issues = getLinkedIssues(pr.body ?? '', owner, repo)
+      for (const issue of await HelperApi.getClosingIssues(
+        owner,
+        repo,
+        pullNumber
+      )) {
+        if (!issues.includes(issue)) {
+          issues.push(issue)
+        }
+      }
+      if (issues.length === 0) {
+        throw new Error(
+          `Pull request ${pullNumber} don't link to an issue. Add e.g. "Fixes #123" to the body, or link an issue in the Development section.`
+        )
+      }
+      return {
+        status: 'passed',
+        message: `Pull request ${pullNumber} link to ${issues.join(', ')}.`
+      }
+    })
+  } else {
+    runner.skip('require_linked_issue', 'Not enabled.')
+  }
+
+  if (requireVerifiedCommits) {
+    await runner.run('require_verified_commits', async () => {
+      const problems = await getCommitProblems(checkSignature)
+      if (problems.length > 0) {
+        throw new Error(
+          `Pull request ${pullNumber} has commits without a verified signature:\n${problems.join(
+            '\n'
+          )}`
+        )
+      }
+      return {status: 'passed', message: 'All commits are verified.'}
+    })
+  } else {
+    runner.skip('require_verified_commits', 'Not enabled.')
+  }
+
+  if (allowedAuthorDomains.length > 0) {
+    await runner.run('allowed_author_domains', async () => {
+      const problems = await getCommitProblems(c =>
+        checkAuthorDomain(c, allowedAuthorDomains)
+      )
+      if (problems.length > 0) {
+        throw new Error(
+          `Pull request ${pullNumber} has commits by authors outside the allowed email domains:\n${problems.join(
+            '\n'
+          )}`
+        )
+      }
+      return {
+        status: 'passed',
+        message: 'All commits are authored with an allowed email domain.'
+      }
+    })
+  } else {
+    runner.skip('allowed_author_domains', 'Not enabled.')
+  }
+
+  if (requireSignOff) {
+    await runner.run('require_sign_off', async () => {
+      const problems = await getCommitProblems(checkSignOff)
+      if (problems.length > 0) {
+        throw new Error(
+          `Pull request ${pullNumber} has commits that are not signed off by the author:\n${problems.join(
+            '\n'
+          )}`
+        )
+      }
+      return {
+        status: 'passed',
+        message: 'All commits are signed off by the author.'
+      }
+    })
+  } else {
+    runner.skip('require_sign_off', 'Not enabled.')
+  }
+
+  const override: BreakGlassOverride | undefined =
+    runner.bypassed.length > 0
+      ? {
+          label: breakGlassLabel,
+          approvers: overrideApprovers,
+          checks: runner.bypassed.map(r => r.rule)
+        }
+      : undefined
+  // Publishing is best effort, e.g. the token of a pull request from a fork
+  // is read-only, and the results are more important
+  const tryPublish = async (
+    what: string,
+    action: () => Promise<unknown>
+  ): Promise<void> => {
+    try {
+      await action()
+    } catch (error: unknown) {
+      logger.warning(processError(error, false, `Unable to publish ${what}.`))
+    }
+  }
+  if (publish && override) {
+    // An override is always recorded on the pull request
+    await tryPublish('the break-glass override', async () =>
+      HelperApi.createOrUpdateComment(
+        owner,
+        repo,
+        pullNumber,
+        `${BREAK_GLASS_MARKER}\n<!-- ${pr.head.sha} -->`,
+        formatOverride(override, pr.head.sha)
+      )
+    )
+  }
+  if (publish && publishResultsCheckRun) {
+    await tryPublish('the check run', async () =>
+      publishCheckRun(HelperApi, owner, repo, pr.head.sha, runner.results)
+    )
+  }
+  if (publish && publishResultsComment) {
+    await tryPublish('the comment', async () =>
+      publishComment(HelperApi, owner, repo, pullNumber, runner.results)
+    )
+  }
+  return {
+    pullNumber,
+    status: runner.failed.length === 0 ? 'passed' : 'failed',
+    headSha: pr.head.sha,
+    message:
+      runner.failed.length === 0 ? '' : runner.failureMessage(pullNumber),
+    results: runner.results,
+    override
+  }
+}
+
+/**
+ * Run the checks on a pull request and return the result of each check.
+ * Nothing is thrown, an error that prevent the checks from running is
+ * returned as a result with the error status.
+ */
+export const checkPullRequest = async (
+  parameters: CheckParameters
+): Promise<CheckResult> => {
+  try {
+    return await runChecks(parameters)
+  } catch (error: unknown) {
+    return {
+      pullNumber: parameters.pullNumber,
+      status: 'error',
+      message: processError(error, false),
+      results: []
+    }
   }
-  info('All checks completed.')
 }
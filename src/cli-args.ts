@@ -0,0 +1,142 @@
+import {parseArgs} from 'util'
+
+import {RuleResult, RuleStatus} from './rule-runner'
+
+export const USAGE = `Usage: check-pull-request --repo <owner/name> --pr <number> [options]
+
+Check a pull request with the same checks as the action.
+
+Options:
+  --repo <owner/name>   The repository, defaults to GITHUB_REPOSITORY.
+  --pr <number>         The pull request number.
+  --actor <login>       The user to check as code owner, defaults to
+                        GITHUB_ACTOR.
+  --config <file>       A policy file with the rules to check. It use the
+                        same format as .github/check-pull-request.yml.
+  --api-url <url>       The GitHub REST API URL, defaults to GITHUB_API_URL.
+  --api-retries <n>     The number of retries of a failed request (3).
+  --publish             Publish a check run or comment, if enabled.
+  --json                Print the results as JSON.
+  --help                Print this help.
+
+The token is read from the GITHUB_TOKEN or GH_TOKEN environment variable.
+
+Exit codes:
+  0  All checks passed.
+  1  One or more checks failed.
+  2  The checks could not run, e.g. because of invalid arguments.`
+
+export interface CliArguments {
+  owner: string
+  repo: string
+  pullNumber: number
+  actor: string
+  token: string
+  config?: string
+  apiUrl: string
+  apiRetries: number
+  publish: boolean
+  json: boolean
+  help: boolean
+}
+
+/**
+ * Parse the command line arguments. Missing arguments are read from the
+ * same environment variables as GitHub Actions set.
+ * @param args the arguments, without the node and script path
+ * @param env the environment variables
+ */
+export function parseCliArguments(
+  args: string[],
+  env: Record<string, string | undefined>
+): CliArguments {
+  const {values} = parseArgs({
+    args,
+    options: {
+      repo: {type: 'string'},
+      pr: {type: 'string'},
+      actor: {type: 'string'},
+      config: {type: 'string'},
+      'api-url': {type: 'string'},
+      'api-retries': {type: 'string'},
+      publish: {type: 'boolean', default: false},
+      json: {type: 'boolean', default: false},
+      help: {type: 'boolean', default: false}
+    },
+    strict: true
+  })
+  const help = values.help ?? false
+  const [owner, repo, ...rest] = (
+    values.repo ??
+    env.GITHUB_REPOSITORY ??
+    ''
+  ).split('/')
+  const pullNumber = Number(values.pr)
+  const actor = values.actor ?? env.GITHUB_ACTOR ?? ''
+  const token = env.GITHUB_TOKEN || env.GH_TOKEN || ''
+  const apiRetries = Number(values['api-retries'] ?? 3)
+  if (!help) {
+    if (!owner || !repo || rest.length > 0) {
+      throw new Error('The argument --repo must be in the format owner/name.')
+    }
+    if (!Number.isInteger(pullNumber) || pullNumber < 1) {
+      throw new Error('The argument --pr must be a pull request number.')
+    }
+    if (!actor) {
+      throw new Error('The argument --actor is required.')
+    }
+    if (!Number.isInteger(apiRetries) || apiRetries < 0) {
+      throw new Error(
+        'The argument --api-retries must be zero or a positive integer.'
+      )
+    }
+    if (!token) {
+      throw new Error(
+        'A token is required in the GITHUB_TOKEN or GH_TOKEN environment variable.'
+      )
+    }
+  }
+  return {
+    owner,
+    repo,
+    pullNumber,
+    actor,
+    token,
+    config: values.config,
+    apiUrl: values['api-url'] ?? '',
+    apiRetries,
+    publish: values.publish ?? false,
+    json: values.json ?? false,
+    help
+  }
+}
+
+const statusText: Record<RuleStatus, string> = {
+  passed: 'PASS',
+  failed: 'FAIL',
+  skipped: 'SKIP',
+  bypassed: 'BYPASS'
+}
+
+/**
+ * Format the results as plain text, one check on each line. A message
+ * with more than one line is indented below the check.
+ */
+export function formatText(pullNumber: number, results: RuleResult[]): string {
+  const lines = [`Check of pull request ${pullNumber}`, '']
+  for (const result of results) {
+    const [first, ...more] = result.message.split(/\r?\n/)
+    lines.push(`${statusText[result.status]}  ${result.rule}: ${first}`)
+    for (const line of more) {
+      lines.push(`      ${line}`)
+    }
+    if (result.details.missingApprovers?.length) {
+      lines.push(
+        `      Missing approval from one of: ${result.details.missingApprovers.join(
+          ', '
+        )}`
+      )
+    }
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+import {readFileSync} from 'fs'
+
+import {CheckStatus, checkPullRequest} from './check-pr'
+import {USAGE, formatText, parseCliArguments} from './cli-args'
+import {createClient} from './client'
+import {processError} from './error-tools'
+import {createTextLogger} from './logger'
+
+const exitCodes: Record<CheckStatus, number> = {
+  passed: 0,
+  failed: 1,
+  error: 2
+}
+
+async function run(): Promise<number> {
+  // The log of the checks is written to stderr, so only the results are
+  // written to stdout
+  const logger = createTextLogger(line => process.stderr.write(`${line}\n`))
+  const print = (text: string): void => {
+    process.stdout.write(`${text}\n`)
+  }
+  try {
+    const args = parseCliArguments(process.argv.slice(2), process.env)
+    if (args.help) {
+      print(USAGE)
+      return exitCodes.passed
+    }
+    const result = await checkPullRequest({
+      owner: args.owner,
+      repo: args.repo,
+      actor: args.actor,
+      pullNumber: args.pullNumber,
+      octokit: createClient({
+        token: args.token,
+        apiUrl: args.apiUrl,
+        apiRetries: args.apiRetries,
+        logger
+      }),
+      logger,
+      config: args.config
+        ? {path: args.config, content: readFileSync(args.config, 'utf8')}
+        : undefined,
+      publish: args.publish
+    })
+    if (args.json) {
+      print(JSON.stringify(result, undefined, 2))
+    } else if (result.status === 'error') {
+      logger.error(result.message)
+    } else {
+      print(formatText(result.pullNumber, result.results))
+      if (result.override) {
+        print(
+          `\nBreak-glass override with the ${
+            result.override.label
+          } label, approved by ${result.override.approvers.join(', ')}.`
+        )
+      }
+      if (result.status === 'failed') {
+        print(`\n${result.message}`)
+      }
+    }
+    return exitCodes[result.status]
+  } catch (error: unknown) {
+    logger.error(processError(error, false))
+    return exitCodes.error
+  }
+}
+
+async function main(): Promise<void> {
+  process.exitCode = await run()
+}
+void main()
@@ -0,0 +1,39 @@
+import {Octokit} from '@octokit/rest'
+
+import {getApiUrls} from './api-url'
+import {Logger} from './logger'
+import {addRetry} from './retry'
+
+// The part of an Octokit client that is used by the checks, e.g. the
+// client returned by getOctokit of @actions/github or a GitHub App client
+export type GitHubClient = Pick<Octokit, 'rest' | 'paginate' | 'graphql'>
+
+/**
+ * Create a client for the GitHub REST and GraphQL API that retry requests
+ * that failed because of a rate limit or a server error. The client use the
+ * global fetch of Node.js.
+ * @param token the GitHub token, defaults to the GITHUB_TOKEN variable
+ * @param apiUrl the REST API URL, defaults to the URL of the runner
+ * @param apiRetries the maximum number of retries for a request
+ * @param logger the logger for retry warnings
+ */
+export function createClient({
+  token,
+  apiUrl,
+  apiRetries,
+  logger
+}: Readonly<{
+  token: string
+  apiUrl: string
+  apiRetries: number
+  logger: Logger
+}>): Octokit {
+  const {baseUrl, graphqlUrl} = getApiUrls(apiUrl)
+  const octokit = new Octokit({
+    auth: `token ${token || process.env.GITHUB_TOKEN}`,
+    baseUrl
+  })
+  octokit.graphql = octokit.graphql.defaults({url: graphqlUrl})
+  addRetry(octokit, apiRetries, logger)
+  return octokit
+}
@@ -0,0 +1,126 @@
+import ignore from 'ignore'
+
+export interface CodeOwnerEntry {
+  path: string
+  owners: string[]
+  line: number
+  match: (path: string) => boolean
+}
+
+export interface CodeOwnersError {
+  line: number
+  message: string
+}
+
+export interface CodeOwnersFile {
+  path: string
+  entries: CodeOwnerEntry[]
+  errors: CodeOwnersError[]
+}
+
+const userPattern = /^@[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?$/
+const teamPattern = /^@[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?\/[\w.-]+$/
+const emailPattern = /^[^@\s]+@[^@\s]+\.[^@\s]+$/
+
+/**
+ * Split a line into tokens. A backslash escape the next character, so
+ * `\ ` is a space in a pattern and `\#` is not a comment. An unescaped `#`
+ * start a comment that continue to the end of the line.
+ * @param line a line of a CODEOWNERS file
+ */
+function tokenize(line: string): string[] {
+  const tokens: string[] = []
+  let token = ''
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '\\' && i + 1 < line.length) {
+      token += line.slice(i, i + 2)
+      i++
+    } else if (char === '#') {
+      break
+    } else if (/\s/.test(char)) {
+      if (token) {
+        tokens.push(token)
+      }
+      token = ''
+    } else {
+      token += char
+    }
+  }
+  if (token) {
+    tokens.push(token)
+  }
+  return tokens
+}
+
+export function isValidOwner(owner: string): boolean {
+  return (
+    userPattern.test(owner) ||
+    teamPattern.test(owner) ||
+    emailPattern.test(owner)
+  )
+}
+
+/**
+ * Parse a CODEOWNERS file with the same rules as GitHub. A line with a
+ * syntax error is reported and ignored, like GitHub does.
+ *
+ * The entries are returned in reverse order, so the first entry that match
+ * a path is the last matching pattern in the file, which is the one that
+ * apply. A matching entry without owners mean the path has no owners.
+ * @param path the path of the CODEOWNERS file
+ * @param content the content of the CODEOWNERS file
+ */
+export function parseCodeOwners(path: string, content: string): CodeOwnersFile {
+  const entries: CodeOwnerEntry[] = []
+  const errors: CodeOwnersError[] = []
+  const lines = content.split(/\r\n|\r|\n/)
+  for (const [index, text] of lines.entries()) {
+    const line = index + 1
+    const [pattern, ...owners] = tokenize(text.trim())
+    if (!pattern) {
+      continue
+    }
+    if (pattern.startsWith('!')) {
+      errors.push({
+        line,
+        message: `Negated pattern ${pattern} is not supported.`
+      })
+      continue
+    }
+    if (/(^|[^\\])\[/.test(pattern)) {
+      errors.push({
+        line,
+        message: `Character range in pattern ${pattern} is not supported.`
+      })
+      continue
+    }
+    const invalid = owners.filter(o => !isValidOwner(o))
+    if (invalid.length > 0) {
+      errors.push({
+        line,
+        message: `Invalid owner ${invalid.join(
+          ', '
+        )}. An owner must be a @user, a @org/team or an email.`
+      })
+      continue
+    }
+    const matcher = ignore().add(pattern)
+    const match = matcher.ignores.bind(matcher)
+    entries.push({path: pattern, owners, line, match})
+  }
+  return {path, entries: entries.reverse(), errors}
+}
+
+/**
+ * Find the entry that apply to a file, which is the last matching pattern.
+ * @param file the file path, with or without a leading /
+ * @param entries the entries returned by parseCodeOwners
+ */
+export function findCodeOwnerEntry(
+  file: string,
+  entries: CodeOwnerEntry[]
+): CodeOwnerEntry | undefined {
+  const relativePath = file.startsWith('/') ? file.slice(1) : file
+  return entries.find(e => e.match(relativePath))
+}
@@ -0,0 +1,64 @@
+import ignore from 'ignore'
+
+export interface CodeTeamEntry {
+  label: string
+  users: string[]
+  requiredApprovals: number
+  // Path patterns, the team is only required when a matching file change
+  paths: string[]
+  // An optional team is only required when the label is on the pull request
+  optional: boolean
+  match: (path: string) => boolean
+}
+
+/**
+ * Parse a CODETEAMS file. Each line start with a label followed by one or
+ * more users. The label can be written as `[?]label[:count][:/path,...]`:
+ *
+ * - `?` make the team optional, it is only required if the label is set.
+ * - `:count` require more than one approval from the team. A count below 1
+ *   is not a count, so the whole name is the label, e.g. `security:0`.
+ * - `:/path` only require the team when a file that match one of the comma
+ *   separated path patterns change. A path pattern must start with `/`.
+ *
+ * A label that don't match this format is used as is, e.g. `type:bug`.
+ * @param content the content of the CODETEAMS file
+ */
+export function parseCodeTeams(content: string): CodeTeamEntry[] {
+  const codeTeamEntries: CodeTeamEntry[] = []
+  const lines = content.split(/\r\n|\r|\n/)
+  for (const line of lines) {
+    if (!line || line.startsWith('#')) {
+      continue
+    }
+    const [name, ...users] = line.replace(/#.*/g, '').trim().split(/\s+/)
+    if (!name) {
+      continue
+    }
+    const optional = name.length > 1 && name.startsWith('?')
+    const parts = (optional ? name.slice(1) : name).match(
+      /^(.+?)(?::([1-9]\d*))?(?::(\/\S*))?$/
+    )
+    const label = parts ? parts[1] : name
+    const requiredApprovals = parts?.[2] ? Number(parts[2]) : 1
+    const paths = parts?.[3] ? parts[3].split(',').filter(p => p) : []
+    const matcher = ignore().add(paths)
+    const match = (path: string): boolean =>
+      paths.length === 0 || matcher.ignores(path)
+    if (
+      codeTeamEntries.findIndex(
+        e => e.label === label && e.paths.join(',') === paths.join(',')
+      ) === -1
+    ) {
+      codeTeamEntries.push({
+        label,
+        users,
+        requiredApprovals,
+        paths,
+        optional,
+        match
+      })
+    }
+  }
+  return codeTeamEntries.reverse()
+}
@@ -0,0 +1,14 @@
+export type Command = 'check' | 'merge' | 'explain'
+
+const COMMAND_PATTERN = /^\/(check|merge|explain)(?=\s|$)/m
+
+/**
+ * Get the slash command in the body of a comment. A command must be at the
+ * start of a line, e.g. `/check`. When the comment has more than one
+ * command, the first command is used.
+ * @param body the body of the comment
+ */
+export function parseCommand(body: string): Command | undefined {
+  const match = body.match(COMMAND_PATTERN)
+  return match ? (match[1] as Command) : undefined
+}
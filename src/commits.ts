@@ -0,0 +1,104 @@
+export interface CommitUser {
+  name: string
+  email: string
+  // The GitHub user, unknown if the email is not linked to a user
+  login?: string
+}
+
+export interface PullCommit {
+  sha: string
+  message: string
+  author: CommitUser
+  committer: CommitUser
+  verified: boolean
+  // Why the signature is verified or not, e.g. valid, unsigned or bad_email
+  verificationReason: string
+  // A merge commit has more than one parent
+  parents: number
+}
+
+const NOREPLY_EMAIL = /^(?:\d+\+)?([\w-]+)@users\.noreply\.github\.com$/i
+
+const TRAILER = /^([\w-]+):\s*(.*?)\s*<([^<>]*)>\s*$/
+
+/**
+ * Get the users of the trailers with a key, e.g. `Signed-off-by` or
+ * `Co-authored-by`, in a commit message. A trailer is a line like
+ * `Signed-off-by: Name <email>`, the key is not case sensitive.
+ * @param message the commit message
+ * @param key the trailer key
+ */
+export function getTrailerUsers(message: string, key: string): CommitUser[] {
+  const users: CommitUser[] = []
+  for (const line of message.split(/\r?\n/)) {
+    const match = line.trim().match(TRAILER)
+    if (match && match[1].toLowerCase() === key.toLowerCase()) {
+      users.push({name: match[2], email: match[3]})
+    }
+  }
+  return users
+}
+
+/**
+ * Get the GitHub user of a noreply email, e.g.
+ * `12345+octocat@users.noreply.github.com`.
+ * @param email the email of a commit author
+ */
+export function getNoreplyLogin(email: string): string | undefined {
+  return email.match(NOREPLY_EMAIL)?.[1]
+}
+
+/**
+ * Check that a commit has a verified signature. Return the problem, if any.
+ * @param commit the commit to check
+ */
+export function checkSignature(commit: PullCommit): string | undefined {
+  if (commit.verified) {
+    return undefined
+  }
+  return commit.verificationReason === 'unsigned'
+    ? 'is not signed'
+    : `has a signature that is not verified (${commit.verificationReason})`
+}
+
+/**
+ * Check that the email of the commit author is in one of the domains. The
+ * domain must match exactly, a subdomain is not included. Return the
+ * problem, if any.
+ * @param commit the commit to check
+ * @param domains the allowed email domains, e.g. `example.com`
+ */
+export function checkAuthorDomain(
+  commit: PullCommit,
+  domains: string[]
+): string | undefined {
+  const email = commit.author.email
+  const domain = email.slice(email.lastIndexOf('@') + 1).toLowerCase()
+  if (email.includes('@') && domains.some(d => d.toLowerCase() === domain)) {
+    return undefined
+  }
+  return `is authored by ${
+    email || 'an unknown email'
+  }, but the email domain must be one of ${domains.join(', ')}`
+}
+
+/**
+ * Check that a commit has a `Signed-off-by` trailer with the email of the
+ * author, as required by the Developer Certificate of Origin (DCO). A merge
+ * commit is not checked, since it is often created by GitHub when the head
+ * branch is updated. Return the problem, if any.
+ * @param commit the commit to check
+ */
+export function checkSignOff(commit: PullCommit): string | undefined {
+  if (commit.parents > 1) {
+    return undefined
+  }
+  const signOffs = getTrailerUsers(commit.message, 'Signed-off-by')
+  const email = commit.author.email.toLowerCase()
+  if (signOffs.some(s => s.email.toLowerCase() === email)) {
+    return undefined
+  }
+  return signOffs.length === 0
+    ? 'has no Signed-off-by trailer'
+    : `has no Signed-off-by trailer for the author ${commit.author.email}`
+}
@@ -52,6 +52,115 @@ export function isOctokitTypesRequestError(
   )
 }
 
+export type ErrorCategory = 'rate-limit' | 'unavailable' | 'api'
+
+function getHeader(error: unknown, name: string): string | undefined {
+  if (error instanceof OctokitRequestError) {
+    const value = error.response?.headers[name]
+    return value === undefined ? undefined : String(value)
+  }
+  return undefined
+}
+
+// A secondary rate limit can be returned without rate limit headers, and
+// is then only known by the message
+function isSecondaryRateLimitError(error: unknown): boolean {
+  return (
+    isErrorWithStatus(error) &&
+    (error.status === 403 || error.status === 429) &&
+    isErrorWithMessage(error) &&
+    /secondary rate limit/i.test(error.message)
+  )
+}
+
+export function isRateLimitError(error: unknown): boolean {
+  return (
+    isErrorWithStatus(error) &&
+    (error.status === 429 ||
+      (error.status === 403 &&
+        (getHeader(error, 'retry-after') !== undefined ||
+          getHeader(error, 'x-ratelimit-remaining') === '0' ||
+          isSecondaryRateLimitError(error))))
+  )
+}
+
+/**
+ * Get the number of milliseconds to wait before a failed request can be
+ * retried, or undefined if the request should not be retried.
+ * @param error the error from the request
+ * @param attempt the number of the failed attempt, starting at 0
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number
+): number | undefined {
+  const retryAfter = getHeader(error, 'retry-after')
+  if (retryAfter !== undefined && !isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000
+  }
+  const reset = getHeader(error, 'x-ratelimit-reset')
+  if (
+    getHeader(error, 'x-ratelimit-remaining') === '0' &&
+    reset !== undefined
+  ) {
+    return Math.max(Number(reset) * 1000 - Date.now(), 0) + 1000
+  }
+  if (isSecondaryRateLimitError(error)) {
+    // GitHub ask to wait at least one minute, and then longer for each retry
+    return 2 ** attempt * 60 * 1000
+  }
+  if (isRateLimitError(error) || getErrorCategory(error) === 'unavailable') {
+    return 2 ** attempt * 1000
+  }
+  return undefined
+}
+
+export function getErrorCategory(error: unknown): ErrorCategory | undefined {
+  if (error instanceof ApiError) {
+    return error.category
+  }
+  if (isRateLimitError(error)) {
+    return 'rate-limit'
+  }
+  if (isErrorWithStatus(error) && error.status >= 500) {
+    return 'unavailable'
+  }
+  if (error instanceof OctokitRequestError || isErrorWithStatus(error)) {
+    return 'api'
+  }
+  return undefined
+}
+
+// An error from the GitHub API, with the message of processError. The
+// category is kept, so an API failure is not mistaken for a failed check.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly category: ErrorCategory
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+/**
+ * Create an error with the message of processError, that keep the category
+ * of an API error.
+ * @param error the error to wrap
+ * @param message a message to add before the error message
+ */
+export function wrapError(error: unknown, message?: string): Error {
+  const text = processError(error, false, message)
+  const category = getErrorCategory(error)
+  return category ? new ApiError(text, category) : new Error(text)
+}
+
+const errorCategoryMessage: Record<ErrorCategory, string> = {
+  'rate-limit': 'GitHub API rate limit exceeded.',
+  unavailable: 'GitHub API is unavailable.',
+  api: 'GitHub API request failed.'
+}
+
 export function processError(
   error: unknown,
   fail = false,
@@ -59,6 +168,14 @@ export function processError(
 ): string {
   let errorMessage = getErrorString(error)
   let returnMessage = ''
+  // The message of an ApiError already start with the category
+  const category =
+    error instanceof ApiError ? undefined : getErrorCategory(error)
+  if (category) {
+    message = message
+      ? `${errorCategoryMessage[category]} ${message}`
+      : errorCategoryMessage[category]
+  }
   if (message && errorMessage !== '') {
     returnMessage = `${message} ${errorMessage}`
   } else if (message) {
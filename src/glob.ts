@@ -0,0 +1,31 @@
+/**
+ * Convert a glob pattern to a regular expression that match the whole text.
+ * `**` match anything, `*` and `?` match anything except `/`.
+ * @param pattern the glob pattern, e.g. release/* or ci/**
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*'
+      i++
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check if the text match the glob pattern
+ * @param pattern the glob pattern
+ * @param text the text to match, e.g. a branch or check name
+ */
+export function matchGlob(pattern: string, text: string): boolean {
+  return globToRegExp(pattern).test(text)
+}
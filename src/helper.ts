@@ -1,28 +1,79 @@
-import {info, notice} from '@actions/core'
-import {Octokit, RestEndpointMethodTypes} from '@octokit/rest'
-import ignore from 'ignore'
+import {RestEndpointMethodTypes} from '@octokit/rest'
 
-import {isErrorWithStatus, processError} from './error-tools'
+import {
+  CodeOwnerEntry,
+  CodeOwnersError,
+  CodeOwnersFile,
+  findCodeOwnerEntry,
+  parseCodeOwners
+} from './codeowners'
+import {GitHubClient} from './client'
+import {CodeTeamEntry, parseCodeTeams} from './codeteams'
+import {PullCommit, getNoreplyLogin, getTrailerUsers} from './commits'
+import {CommitCheck} from './required-checks'
+import {isErrorWithStatus, processError, wrapError} from './error-tools'
+import {Logger, actionsLogger} from './logger'
+import {Permission, hasPermission, isPermission} from './permissions'
+import {sleep} from './wait'
 
 type PullRequest = RestEndpointMethodTypes['pulls']['get']['response']['data']
+type PullFiles =
+  RestEndpointMethodTypes['pulls']['listFiles']['response']['data']
 type ReviewComments =
   RestEndpointMethodTypes['pulls']['listReviews']['response']['data']
 type IssueLabels =
   RestEndpointMethodTypes['issues']['listLabelsOnIssue']['response']['data']
 
-interface CodeOwnerEntry {
+interface CodeOwnerGroup {
   path: string
   owners: string[]
-  match: (path: string) => boolean
+  files: string[]
 }
 
-interface CodeTeamEntry {
-  label: string
-  users: string[]
+export interface FileChange {
+  path: string
+  additions: number
+  deletions: number
+}
+
+interface ReviewOptions {
+  // When set, approvals for other commits are ignored
+  headSha?: string
+  requiredApprovals?: number
+  // Approvals by these users are ignored, even if they are owners
+  ignoredReviewers?: string[]
+}
+
+export type MergeMethod = 'merge' | 'squash' | 'rebase'
+
+export interface MergeOptions {
+  // The head commit that was checked, the merge fail if the head has changed
+  sha: string
+  method: MergeMethod
+  title?: string
+  message?: string
 }
 
+type CheckRunOutput = NonNullable<
+  RestEndpointMethodTypes['checks']['create']['parameters']['output']
+>
+
 export class Helper {
-  constructor(private octokit: Octokit) {}
+  private readonly resolvedOwners = new Map<string, string[]>()
+  private readonly pullFiles = new Map<string, PullFiles>()
+  private readonly pullCommits = new Map<string, PullCommit[]>()
+  private readonly pullReviews = new Map<string, ReviewComments>()
+  private readonly issueLabels = new Map<string, IssueLabels>()
+  private readonly codeOwners = new Map<string, CodeOwnersFile | undefined>()
+  private readonly codeTeams = new Map<string, CodeTeamEntry[]>()
+  private readonly permissions = new Map<string, Permission>()
+  // Empty when the user of the token is unknown
+  private tokenUser?: string
+
+  constructor(
+    private octokit: GitHubClient,
+    private logger: Logger = actionsLogger
+  ) {}
 
   async getFileContent(
     owner: string,
@@ -37,21 +88,39 @@ export class Helper {
         path,
         ref
       })
-      if ((response.data as {content?: string}).content !== undefined) {
-        info(`- Found: ${path}`)
+      const data = response.data as {
+        type?: string
+        content?: string
+        encoding?: string
+      }
+      if (data.content && data.encoding && data.encoding !== 'none') {
+        this.logger.info(`- Found: ${path}`)
         return Buffer.from(
-          (response.data as {content: string}).content,
-          (response.data as {encoding: BufferEncoding}).encoding
+          data.content,
+          data.encoding as BufferEncoding
         ).toString('utf-8')
       }
-      info(`- Not found (content missing): ${path}`)
+      if (data.type === 'file') {
+        // Large files, and files on some GitHub Enterprise Server versions,
+        // are returned without content, so get the raw file instead
+        const raw = await this.octokit.rest.repos.getContent({
+          owner,
+          repo,
+          path,
+          ref,
+          mediaType: {format: 'raw'}
+        })
+        this.logger.info(`- Found (raw): ${path}`)
+        return String(raw.data)
+      }
+      this.logger.info(`- Not found (content missing): ${path}`)
       return undefined
     } catch (error: unknown) {
       if (isErrorWithStatus(error) && error.status === 404) {
-        info(`- Not found: ${path}`)
+        this.logger.info(`- Not found: ${path}`)
         return undefined
       }
-      throw new Error(processError(error, false))
+      throw wrapError(error)
     }
   }
 
@@ -60,7 +129,7 @@ export class Helper {
     repo: string,
     pullNumber: number
   ): Promise<PullRequest | null> {
-    info(`Get pull request ${pullNumber}.`)
+    this.logger.info(`Get pull request ${pullNumber}.`)
     const {data} = await this.octokit.rest.pulls.get({
       owner,
       repo,
@@ -69,34 +138,181 @@ export class Helper {
     return data
   }
 
+  async waitForMergeableState(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    timeout: number
+  ): Promise<PullRequest> {
+    const started = Date.now()
+    let delay = 2
+    for (let attempt = 1; ; attempt++) {
+      const pr = await this.getPull(owner, repo, pullNumber)
+      if (!pr) {
+        throw new Error(`Unable to get pull request ${pullNumber}.`)
+      }
+      const elapsed = (Date.now() - started) / 1000
+      if (pr.merged || pr.mergeable !== null || elapsed >= timeout) {
+        return pr
+      }
+      const wait = Math.min(delay, timeout - elapsed)
+      this.logger.info(
+        `Attempt ${attempt}: the mergeable state of pull request ${pullNumber} is unknown. Retry in ${wait} seconds.`
+      )
+      await sleep(wait * 1000)
+      delay = Math.min(delay * 2, 30)
+    }
+  }
+
+  async listPullFiles(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<PullFiles> {
+    const key = `${owner}/${repo}/${pullNumber}`
+    const cached = this.pullFiles.get(key)
+    if (cached) {
+      return cached
+    }
+    this.logger.info(`Get files in pull request ${pullNumber}.`)
+    const data = await this.octokit.paginate(
+      this.octokit.rest.pulls.listFiles,
+      {
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100
+      }
+    )
+    this.pullFiles.set(key, data)
+    return data
+  }
+
   async getPullFiles(
     owner: string,
     repo: string,
     pullNumber: number
   ): Promise<string[]> {
-    info(`Get files in pull request ${pullNumber}.`)
-    const {data} = await this.octokit.rest.pulls.listFiles({
-      owner,
-      repo,
-      pull_number: pullNumber,
-      per_page: 100
-    })
+    const data = await this.listPullFiles(owner, repo, pullNumber)
     const fileStrings = data.map(f => `/${f.filename}`)
     return fileStrings
   }
 
+  async getPullFileChanges(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<FileChange[]> {
+    const data = await this.listPullFiles(owner, repo, pullNumber)
+    return data.map(f => ({
+      path: `/${f.filename}`,
+      additions: f.additions,
+      deletions: f.deletions
+    }))
+  }
+
+  async getPullCommits(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<PullCommit[]> {
+    const key = `${owner}/${repo}/${pullNumber}`
+    const cached = this.pullCommits.get(key)
+    if (cached) {
+      return cached
+    }
+    this.logger.info(`Get commits in pull request ${pullNumber}.`)
+    const data = await this.octokit.paginate(
+      this.octokit.rest.pulls.listCommits,
+      {
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100
+      }
+    )
+    const commits = data.map(c => ({
+      sha: c.sha,
+      message: c.commit.message,
+      author: {
+        name: c.commit.author?.name ?? '',
+        email: c.commit.author?.email ?? '',
+        login: c.author?.login
+      },
+      committer: {
+        name: c.commit.committer?.name ?? '',
+        email: c.commit.committer?.email ?? '',
+        login: c.committer?.login
+      },
+      verified: c.commit.verification?.verified ?? false,
+      verificationReason: c.commit.verification?.reason ?? 'unsigned',
+      parents: c.parents.length
+    }))
+    this.pullCommits.set(key, commits)
+    return commits
+  }
+
+  /**
+   * Get the users that contributed to the commits of a pull request: the
+   * authors, committers and co-authors in `Co-authored-by` trailers. A
+   * co-author is found by the GitHub noreply email or by the public email.
+   * A merge commit is skipped, since it is often created when a reviewer
+   * update the head branch.
+   */
+  async getPullContributors(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<string[]> {
+    const commits = await this.getPullCommits(owner, repo, pullNumber)
+    const contributors: string[] = []
+    const add = (login?: string): void => {
+      if (login && !contributors.includes(login)) {
+        contributors.push(login)
+      }
+    }
+    for (const commit of commits.filter(c => c.parents === 1)) {
+      add(commit.author.login)
+      add(commit.committer.login)
+      for (const coAuthor of getTrailerUsers(
+        commit.message,
+        'Co-authored-by'
+      )) {
+        const user =
+          getNoreplyLogin(coAuthor.email) ??
+          (await this.getUserByEmail(coAuthor.email))?.slice(1)
+        if (!user) {
+          this.logger.notice(
+            `Co-author ${coAuthor.email} of commit ${commit.sha} is not found on GitHub. An approval by the co-author is not ignored.`
+          )
+        }
+        add(user)
+      }
+    }
+    return contributors
+  }
+
   async getPullReviews(
     owner: string,
     repo: string,
     pullNumber: number
   ): Promise<ReviewComments | null> {
-    info(`Get reviews for pull request ${pullNumber}.`)
-    const {data} = await this.octokit.rest.pulls.listReviews({
-      owner,
-      repo,
-      pull_number: pullNumber,
-      per_page: 100
-    })
+    const key = `${owner}/${repo}/${pullNumber}`
+    const cached = this.pullReviews.get(key)
+    if (cached) {
+      return cached
+    }
+    this.logger.info(`Get reviews for pull request ${pullNumber}.`)
+    const data = await this.octokit.paginate(
+      this.octokit.rest.pulls.listReviews,
+      {
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100
+      }
+    )
+    this.pullReviews.set(key, data)
     return data
   }
 
@@ -105,49 +321,176 @@ export class Helper {
     repo: string,
     issueNumber: number
   ): Promise<IssueLabels | null> {
-    info(`Get labels for issue ${issueNumber}.`)
-    const {data} = await this.octokit.rest.issues.listLabelsOnIssue({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      per_page: 100
-    })
+    const key = `${owner}/${repo}/${issueNumber}`
+    const cached = this.issueLabels.get(key)
+    if (cached) {
+      return cached
+    }
+    this.logger.info(`Get labels for issue ${issueNumber}.`)
+    const data = await this.octokit.paginate(
+      this.octokit.rest.issues.listLabelsOnIssue,
+      {
+        owner,
+        repo,
+        issue_number: issueNumber,
+        per_page: 100
+      }
+    )
+    this.issueLabels.set(key, data)
     return data
   }
 
-  async getCodeOwners(
+  /**
+   * Get the issues that the pull request close when merged, both the issues
+   * linked with a keyword and the issues linked in the Development sidebar.
+   */
+  async getClosingIssues(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<string[]> {
+    this.logger.info(`Get issues linked to pull request ${pullNumber}.`)
+    try {
+      const data = await this.octokit.graphql<{
+        repository: {
+          pullRequest: {
+            closingIssuesReferences: {
+              nodes: {number: number; repository: {nameWithOwner: string}}[]
+            }
+          } | null
+        }
+      }>(
+        `query($owner: String!, $repo: String!, $pullNumber: Int!) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $pullNumber) {
+              closingIssuesReferences(first: 100) {
+                nodes {
+                  number
+                  repository {
+                    nameWithOwner
+                  }
+                }
+              }
+            }
+          }
+        }`,
+        {owner, repo, pullNumber}
+      )
+      return (
+        data.repository.pullRequest?.closingIssuesReferences.nodes ?? []
+      ).map(i => `${i.repository.nameWithOwner}#${i.number}`)
+    } catch (error: unknown) {
+      throw wrapError(
+        error,
+        `Unable to get the issues linked to pull request ${pullNumber}.`
+      )
+    }
+  }
+
+  async getCommitChecks(
     owner: string,
     repo: string,
     ref: string
-  ): Promise<CodeOwnerEntry[]> {
-    info(`Look for CODEOWNERS file in ${ref} branch.`)
+  ): Promise<CommitCheck[]> {
+    this.logger.info(`Get check runs and statuses for commit ${ref}.`)
+    const checks: CommitCheck[] = []
+    const checkRuns = await this.octokit.paginate(
+      this.octokit.rest.checks.listForRef,
+      {
+        owner,
+        repo,
+        ref,
+        filter: 'latest',
+        per_page: 100
+      }
+    )
+    for (const run of checkRuns) {
+      checks.push({
+        name: run.name,
+        state:
+          run.status !== 'completed'
+            ? 'pending'
+            : ['success', 'neutral', 'skipped'].includes(run.conclusion ?? '')
+            ? 'success'
+            : 'failure'
+      })
+    }
+    // The statuses are listed with the latest first, and only the latest
+    // status of each context count
+    const statuses = await this.octokit.paginate(
+      this.octokit.rest.repos.listCommitStatusesForRef,
+      {
+        owner,
+        repo,
+        ref,
+        per_page: 100
+      }
+    )
+    const contexts: string[] = []
+    for (const status of statuses) {
+      if (contexts.includes(status.context)) {
+        continue
+      }
+      contexts.push(status.context)
+      checks.push({
+        name: status.context,
+        state:
+          status.state === 'success'
+            ? 'success'
+            : status.state === 'pending'
+            ? 'pending'
+            : 'failure'
+      })
+    }
+    return checks
+  }
+
+  async getCodeOwnersFile(
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<CodeOwnersFile | undefined> {
+    const key = `${owner}/${repo}/${ref}`
+    if (this.codeOwners.has(key)) {
+      return this.codeOwners.get(key)
+    }
+    this.logger.info(`Look for CODEOWNERS file in ${ref} branch.`)
+    // The same order as GitHub use to find the CODEOWNERS file
     const files: string[] = [
-      'CODEOWNERS',
       '.github/CODEOWNERS',
-      '.gitlab/CODEOWNERS',
-      'docs/CODEOWNERS'
+      'CODEOWNERS',
+      'docs/CODEOWNERS',
+      '.gitlab/CODEOWNERS'
     ]
-    const codeOwnerEntries: CodeOwnerEntry[] = []
-    let content: string | undefined
+    let codeOwnersFile: CodeOwnersFile | undefined
     for (const file of files) {
-      content = await this.getFileContent(owner, repo, file, ref)
+      const content = await this.getFileContent(owner, repo, file, ref)
       if (content) {
-        const lines = content.split(/\r\n|\r|\n/)
-        for (const line of lines) {
-          if (!line || line.startsWith('#')) {
-            continue
-          }
-          const [path, ...owners] = line.replace(/#.*/g, '').trim().split(/\s+/)
-          const matcher = ignore().add(path)
-          const match = matcher.ignores.bind(matcher)
-          if (codeOwnerEntries.findIndex(p => p.path === path) === -1) {
-            codeOwnerEntries.push({path, owners, match})
-          }
+        codeOwnersFile = parseCodeOwners(file, content)
+        for (const error of codeOwnersFile.errors) {
+          this.logger.warning(
+            `Line ${error.line} of ${file}: ${error.message}`,
+            {
+              title: 'Invalid CODEOWNERS line',
+              file,
+              startLine: error.line
+            }
+          )
         }
-        return codeOwnerEntries.reverse()
+        break
       }
     }
-    return codeOwnerEntries
+    this.codeOwners.set(key, codeOwnersFile)
+    return codeOwnersFile
+  }
+
+  async getCodeOwners(
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<CodeOwnerEntry[]> {
+    const codeOwnersFile = await this.getCodeOwnersFile(owner, repo, ref)
+    return codeOwnersFile?.entries ?? []
   }
 
   async getCodeTeams(
@@ -155,60 +498,238 @@ export class Helper {
     repo: string,
     ref: string
   ): Promise<CodeTeamEntry[]> {
-    info(`Look for CODETEAMS file in ${ref} branch.`)
+    const key = `${owner}/${repo}/${ref}`
+    const cached = this.codeTeams.get(key)
+    if (cached) {
+      return cached
+    }
+    this.logger.info(`Look for CODETEAMS file in ${ref} branch.`)
     const files: string[] = [
       'CODETEAMS',
       '.github/CODETEAMS',
       '.gitlab/CODETEAMS',
       'docs/CODETEAMS'
     ]
-    const codeTeamEntries: CodeTeamEntry[] = []
-    let content: string | undefined
+    let codeTeamEntries: CodeTeamEntry[] = []
     for (const file of files) {
-      content = await this.getFileContent(owner, repo, file, ref)
+      const content = await this.getFileContent(owner, repo, file, ref)
       if (content) {
-        const lines = content.split(/\r\n|\r|\n/)
-        for (const line of lines) {
-          if (!line || line.startsWith('#')) {
-            continue
-          }
-          const [label, ...users] = line.replace(/#.*/g, '').trim().split(/\s+/)
-          if (codeTeamEntries.findIndex(l => l.label === label) === -1) {
-            codeTeamEntries.push({label, users})
-          }
-        }
-        return codeTeamEntries.reverse()
+        codeTeamEntries = parseCodeTeams(content)
+        break
       }
     }
+    this.codeTeams.set(key, codeTeamEntries)
     return codeTeamEntries
   }
 
+  async getTeamMembers(org: string, teamSlug: string): Promise<string[]> {
+    this.logger.info(`Get members of team @${org}/${teamSlug}.`)
+    try {
+      const members = await this.octokit.paginate(
+        this.octokit.rest.teams.listMembersInOrg,
+        {
+          org,
+          team_slug: teamSlug,
+          per_page: 100
+        }
+      )
+      return members.map(m => `@${m.login}`)
+    } catch (error: unknown) {
+      if (
+        isErrorWithStatus(error) &&
+        (error.status === 403 || error.status === 404)
+      ) {
+        this.logger.notice(
+          `Unable to get members of team @${org}/${teamSlug}. Make sure the team exist and that the token can read organization members. This team will be ignored.`
+        )
+        return []
+      }
+      throw wrapError(error)
+    }
+  }
+
+  async getUserByEmail(email: string): Promise<string | undefined> {
+    this.logger.info(`Look up user with email ${email}.`)
+    try {
+      const {data} = await this.octokit.rest.search.users({
+        q: `${email} in:email`,
+        per_page: 2
+      })
+      if (data.total_count === 1) {
+        return `@${data.items[0].login}`
+      }
+      this.logger.notice(
+        `Found ${data.total_count} users with the public email ${email}.`
+      )
+      return undefined
+    } catch (error: unknown) {
+      if (
+        isErrorWithStatus(error) &&
+        (error.status === 403 || error.status === 422)
+      ) {
+        this.logger.notice(`Unable to look up user with email ${email}.`)
+        return undefined
+      }
+      throw wrapError(error)
+    }
+  }
+
+  async resolveOwner(owner: string): Promise<string[]> {
+    const cached = this.resolvedOwners.get(owner)
+    if (cached) {
+      return cached
+    }
+    let users: string[] = []
+    if (owner.startsWith('@') && owner.includes('/')) {
+      const [org, teamSlug] = owner.slice(1).split('/', 2)
+      users = await this.getTeamMembers(org, teamSlug)
+    } else if (owner.startsWith('@')) {
+      users = [owner]
+    } else if (owner.includes('@')) {
+      const user = await this.getUserByEmail(owner)
+      if (user) {
+        users = [user]
+      }
+    } else {
+      this.logger.notice(
+        `Owner ${owner} is not a user, team or email. This owner will be ignored.`
+      )
+    }
+    this.resolvedOwners.set(owner, users)
+    return users
+  }
+
+  async resolveOwners(owners: string[]): Promise<string[]> {
+    const users: string[] = []
+    for (const owner of owners) {
+      for (const user of await this.resolveOwner(owner)) {
+        if (!users.includes(user)) {
+          users.push(user)
+        }
+      }
+    }
+    return users
+  }
+
+  async getPermission(
+    owner: string,
+    repo: string,
+    username: string
+  ): Promise<Permission> {
+    const key = `${owner}/${repo}/${username}`
+    const cached = this.permissions.get(key)
+    if (cached) {
+      return cached
+    }
+    this.logger.info(`Get permission of ${username} in ${owner}/${repo}.`)
+    let permission: Permission = 'none'
+    try {
+      const {data} =
+        await this.octokit.rest.repos.getCollaboratorPermissionLevel({
+          owner,
+          repo,
+          username
+        })
+      // The role name include triage and maintain, but can also be the
+      // name of a custom role, which is based on one of the other roles
+      if (isPermission(data.role_name)) {
+        permission = data.role_name
+      } else if (isPermission(data.permission)) {
+        permission = data.permission
+      }
+    } catch (error: unknown) {
+      if (!isErrorWithStatus(error) || error.status !== 404) {
+        throw wrapError(error)
+      }
+    }
+    this.permissions.set(key, permission)
+    return permission
+  }
+
+  async ownerExists(owner: string): Promise<boolean> {
+    const [name, teamSlug] = owner.slice(1).split('/', 2)
+    try {
+      if (teamSlug) {
+        await this.octokit.rest.teams.getByName({
+          org: name,
+          team_slug: teamSlug
+        })
+      } else {
+        await this.octokit.rest.users.getByUsername({username: name})
+      }
+      return true
+    } catch (error: unknown) {
+      if (isErrorWithStatus(error) && error.status === 404) {
+        return false
+      }
+      throw wrapError(error)
+    }
+  }
+
+  async validateCodeOwners(
+    codeOwnersFile: CodeOwnersFile
+  ): Promise<CodeOwnersError[]> {
+    this.logger.info(`Validate ${codeOwnersFile.path}.`)
+    const errors = [...codeOwnersFile.errors]
+    const checked = new Map<string, boolean>()
+    // The entries are in reverse order
+    for (const entry of [...codeOwnersFile.entries].reverse()) {
+      for (const owner of entry.owners.filter(o => o.startsWith('@'))) {
+        if (!checked.has(owner)) {
+          checked.set(owner, await this.ownerExists(owner))
+        }
+        if (!checked.get(owner)) {
+          errors.push({
+            line: entry.line,
+            message: `Unknown ${
+              owner.includes('/') ? 'team' : 'user'
+            } ${owner}.`
+          })
+        }
+      }
+    }
+    return errors.sort((a, b) => a.line - b.line)
+  }
+
   async getPullCodeOwners(
     files: string[],
     codeOwnerEntries: CodeOwnerEntry[]
   ): Promise<string[]> {
     const owners: string[] = []
     for (const file of files) {
-      const relativePath = file.startsWith('/') ? file.slice(1) : file
-      for (const entry of codeOwnerEntries) {
-        if (entry.match(relativePath)) {
-          for (const owner of entry.owners) {
-            if (owner.includes('/')) {
-              notice(`Owner ${owner} is a team. Teams will be ignored.`)
-            } else if (owner.startsWith('@')) {
-              if (owners.findIndex(o => o === owner) === -1) {
-                owners.push(owner)
-              }
-            } else {
-              notice(
-                `Owner ${owner} don't start with @. This owner will be ignored.`
-              )
-            }
-          }
+      const entry = findCodeOwnerEntry(file, codeOwnerEntries)
+      for (const owner of entry?.owners ?? []) {
+        if (!owners.includes(owner)) {
+          owners.push(owner)
         }
       }
     }
-    return owners
+    return this.resolveOwners(owners)
+  }
+
+  async getPullCodeOwnerGroups(
+    files: string[],
+    codeOwnerEntries: CodeOwnerEntry[]
+  ): Promise<CodeOwnerGroup[]> {
+    const groups: CodeOwnerGroup[] = []
+    for (const file of files) {
+      const entry = findCodeOwnerEntry(file, codeOwnerEntries)
+      if (!entry || entry.owners.length === 0) {
+        this.logger.info(`The file ${file} has no code owners.`)
+        continue
+      }
+      const group = groups.find(g => g.path === entry.path)
+      if (group) {
+        group.files.push(file)
+      } else {
+        groups.push({
+          path: entry.path,
+          owners: await this.resolveOwners(entry.owners),
+          files: [file]
+        })
+      }
+    }
+    return groups
   }
 
   async isActorOwner(
@@ -216,63 +737,361 @@ export class Helper {
     files: string[],
     codeOwnerEntries: CodeOwnerEntry[]
   ): Promise<boolean> {
-    if (!codeOwnerEntries.find(e => e.owners.includes(`@${actor}`))) {
-      info(`User ${actor} is not a code owner.`)
-      return false
-    }
-    let isOwner: boolean
     for (const file of files) {
-      const relativePath = file.startsWith('/') ? file.slice(1) : file
-      isOwner = false
-      for (const entry of codeOwnerEntries) {
-        if (entry.match(relativePath)) {
-          if (entry.owners.length === 0) {
-            info(`The file ${file} has no code owners.`)
-            return false
-          }
-          for (const owner of entry.owners) {
-            if (owner.startsWith('@') && owner === `@${actor}`) {
-              isOwner = true
-              break
-            }
-          }
-        }
+      const entry = findCodeOwnerEntry(file, codeOwnerEntries)
+      if (!entry || entry.owners.length === 0) {
+        this.logger.info(`The file ${file} has no code owners.`)
+        return false
       }
-      if (isOwner) {
-        info(`The file ${file} is owned by ${actor}.`)
+      const owners = await this.resolveOwners(entry.owners)
+      if (owners.includes(`@${actor}`)) {
+        this.logger.info(`The file ${file} is owned by ${actor}.`)
       } else {
-        info(`The file ${file} is not owned by ${actor}.`)
+        this.logger.info(`The file ${file} is not owned by ${actor}.`)
         return false
       }
     }
     return true
   }
 
+  async getLatestReviews(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<ReviewComments> {
+    const reviews = await this.getPullReviews(owner, repo, pullNumber)
+    const latest = new Map<string, ReviewComments[number]>()
+    for (const review of reviews ?? []) {
+      const reviewer = review.user?.login
+      // A comment don't change the state of an earlier review
+      if (
+        reviewer &&
+        ['APPROVED', 'CHANGES_REQUESTED', 'DISMISSED'].includes(review.state)
+      ) {
+        latest.set(reviewer, review)
+      }
+    }
+    return Array.from(latest.values())
+  }
+
+  async getChangesRequested(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<string[]> {
+    const reviews = await this.getLatestReviews(owner, repo, pullNumber)
+    return reviews
+      .filter(r => r.state === 'CHANGES_REQUESTED')
+      .map(r => `@${r.user?.login}`)
+  }
+
+  async getApprovers(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    owners: string[],
+    prUser: string,
+    options: ReviewOptions = {}
+  ): Promise<string[]> {
+    const reviews = await this.getLatestReviews(owner, repo, pullNumber)
+    const approvers: string[] = []
+    if (reviews.length === 0) {
+      this.logger.notice(`Pull request ${pullNumber} has no reviews.`)
+      return approvers
+    }
+    for (const review of reviews) {
+      const reviewer = review.user?.login
+      if (!reviewer) {
+        continue
+      }
+      if (review.state !== 'APPROVED') {
+        this.logger.info(`The latest review by ${reviewer} is ${review.state}.`)
+        continue
+      }
+      if (options.headSha && review.commit_id !== options.headSha) {
+        this.logger.info(
+          `The approval by ${reviewer} is for commit ${
+            review.commit_id ?? 'unknown'
+          }, not the head commit ${options.headSha}.`
+        )
+        continue
+      }
+      if (options.ignoredReviewers?.includes(reviewer)) {
+        this.logger.info(
+          `The approval by ${reviewer} is ignored, because ${reviewer} contributed to the commits.`
+        )
+        continue
+      }
+      // Like GitHub, only count approvals from users with write access
+      if (
+        !hasPermission(await this.getPermission(owner, repo, reviewer), 'write')
+      ) {
+        this.logger.info(
+          `The approval by ${reviewer} is ignored, because ${reviewer} don't have write access.`
+        )
+        continue
+      }
+      if (
+        (owners.length === 0 && prUser !== reviewer) ||
+        (owners.length === 1 && owners.includes(`@${reviewer}`)) ||
+        (owners.includes(`@${reviewer}`) && prUser !== reviewer)
+      ) {
+        this.logger.info(
+          `Pull request ${pullNumber} was approved by ${reviewer}.`
+        )
+        approvers.push(reviewer)
+      }
+    }
+    return approvers
+  }
+
   async isReviewed(
     owner: string,
     repo: string,
     pullNumber: number,
     owners: string[],
-    prUser: string
+    prUser: string,
+    options: ReviewOptions = {}
   ): Promise<boolean> {
-    const reviews = await this.getPullReviews(owner, repo, pullNumber)
-    if (reviews !== null && reviews.length > 0) {
-      for (const review of reviews) {
-        const reviewer = review.user?.login
+    const requiredApprovals = options.requiredApprovals ?? 1
+    const approvers = await this.getApprovers(
+      owner,
+      repo,
+      pullNumber,
+      owners,
+      prUser,
+      options
+    )
+    if (approvers.length >= requiredApprovals) {
+      return true
+    }
+    this.logger.info(
+      `Pull request ${pullNumber} has ${approvers.length} of ${requiredApprovals} required approvals.`
+    )
+    return false
+  }
+
+  async createOrUpdateCheckRun(
+    owner: string,
+    repo: string,
+    headSha: string,
+    name: string,
+    conclusion: 'success' | 'failure',
+    output: CheckRunOutput
+  ): Promise<number> {
+    const {data} = await this.octokit.rest.checks.listForRef({
+      owner,
+      repo,
+      ref: headSha,
+      check_name: name,
+      filter: 'latest'
+    })
+    const existing = data.check_runs.find(c => c.head_sha === headSha)
+    if (existing) {
+      this.logger.info(`Update check run ${existing.id} for commit ${headSha}.`)
+      await this.octokit.rest.checks.update({
+        owner,
+        repo,
+        check_run_id: existing.id,
+        status: 'completed',
+        conclusion,
+        completed_at: new Date().toISOString(),
+        output
+      })
+      return existing.id
+    }
+    this.logger.info(`Create check run for commit ${headSha}.`)
+    const response = await this.octokit.rest.checks.create({
+      owner,
+      repo,
+      name,
+      head_sha: headSha,
+      status: 'completed',
+      conclusion,
+      completed_at: new Date().toISOString(),
+      output
+    })
+    return response.data.id
+  }
+
+  async getTokenUser(): Promise<string | undefined> {
+    if (this.tokenUser === undefined) {
+      try {
+        const {data} = await this.octokit.rest.users.getAuthenticated()
+        this.tokenUser = data.login
+      } catch (error: unknown) {
+        // A GitHub App or GITHUB_TOKEN can't get the authenticated user
         if (
-          review.state === 'APPROVED' &&
-          (owners.length === 0 ||
-            (owners.length === 1 && owners.includes(`@${reviewer}`)) ||
-            (owners.includes(`@${reviewer}`) && prUser !== reviewer))
+          !isErrorWithStatus(error) ||
+          ![401, 403, 404].includes(error.status)
         ) {
-          info(`Pull request ${pullNumber} was approved by ${reviewer}.`)
-          return true
+          throw wrapError(error)
         }
+        this.tokenUser = ''
       }
-      info(`Pull request ${pullNumber} has not been approved.`)
-    } else {
-      notice(`Pull request ${pullNumber} has no reviews.`)
     }
-    return false
+    return this.tokenUser || undefined
+  }
+
+  async createOrUpdateComment(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    marker: string,
+    body: string
+  ): Promise<number> {
+    const comments = await this.octokit.paginate(
+      this.octokit.rest.issues.listComments,
+      {
+        owner,
+        repo,
+        issue_number: issueNumber,
+        per_page: 100
+      }
+    )
+    const marked = comments.filter(c => c.body?.includes(marker))
+    // Anyone can write the marker, so only a comment by the token's user is
+    // updated. The user of a GitHub App or GITHUB_TOKEN is unknown, but it
+    // is a bot.
+    const login = marked.length > 0 ? await this.getTokenUser() : undefined
+    const existing = marked.find(c =>
+      login ? c.user?.login === login : c.user?.type === 'Bot'
+    )
+    if (existing) {
+      this.logger.info(
+        `Update comment ${existing.id} on pull request ${issueNumber}.`
+      )
+      await this.octokit.rest.issues.updateComment({
+        owner,
+        repo,
+        comment_id: existing.id,
+        body: `${marker}\n${body}`
+      })
+      return existing.id
+    }
+    this.logger.info(`Create comment on pull request ${issueNumber}.`)
+    const {data} = await this.octokit.rest.issues.createComment({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: `${marker}\n${body}`
+    })
+    return data.id
+  }
+
+  async createCommentReaction(
+    owner: string,
+    repo: string,
+    commentId: number,
+    content: '+1' | '-1'
+  ): Promise<void> {
+    this.logger.info(`Add ${content} reaction to comment ${commentId}.`)
+    try {
+      await this.octokit.rest.reactions.createForIssueComment({
+        owner,
+        repo,
+        comment_id: commentId,
+        content
+      })
+    } catch (error: unknown) {
+      // The result of the checks is more important than the reaction
+      this.logger.warning(
+        processError(error, false, 'Unable to add a reaction to the comment.')
+      )
+    }
+  }
+
+  async mergePull(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: MergeOptions
+  ): Promise<void> {
+    this.logger.info(
+      `Merge pull request ${pullNumber} at ${options.sha} with the ${options.method} method.`
+    )
+    try {
+      await this.octokit.rest.pulls.merge({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        sha: options.sha,
+        merge_method: options.method,
+        commit_title: options.title || undefined,
+        commit_message: options.message || undefined
+      })
+    } catch (error: unknown) {
+      if (isErrorWithStatus(error) && error.status === 409) {
+        throw new Error(
+          `Pull request ${pullNumber} was not merged, because the head commit changed after ${options.sha} was checked.`
+        )
+      }
+      throw wrapError(error, `Unable to merge pull request ${pullNumber}.`)
+    }
+  }
+
+  async enableAutoMerge(
+    pullRequestId: string,
+    pullNumber: number,
+    options: MergeOptions
+  ): Promise<void> {
+    this.logger.info(
+      `Enable auto-merge of pull request ${pullNumber} with the ${options.method} method.`
+    )
+    try {
+      await this.octokit.graphql(
+        `mutation(
+          $pullRequestId: ID!
+          $mergeMethod: PullRequestMergeMethod!
+          $commitHeadline: String
+          $commitBody: String
+          $expectedHeadOid: GitObjectID
+        ) {
+          enablePullRequestAutoMerge(
+            input: {
+              pullRequestId: $pullRequestId
+              mergeMethod: $mergeMethod
+              commitHeadline: $commitHeadline
+              commitBody: $commitBody
+              expectedHeadOid: $expectedHeadOid
+            }
+          ) {
+            clientMutationId
+          }
+        }`,
+        {
+          pullRequestId,
+          mergeMethod: options.method.toUpperCase(),
+          commitHeadline: options.title || undefined,
+          commitBody: options.message || undefined,
+          expectedHeadOid: options.sha
+        }
+      )
+    } catch (error: unknown) {
+      throw wrapError(
+        error,
+        `Unable to enable auto-merge of pull request ${pullNumber}.`
+      )
+    }
+  }
+
+  async deleteBranch(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<void> {
+    this.logger.info(`Delete branch ${branch}.`)
+    try {
+      await this.octokit.rest.git.deleteRef({
+        owner,
+        repo,
+        ref: `heads/${branch}`
+      })
+    } catch (error: unknown) {
+      // The pull request is merged, so don't fail because of the branch
+      this.logger.warning(
+        processError(error, false, `Unable to delete branch ${branch}.`)
+      )
+    }
   }
 }
@@ -0,0 +1,10 @@
+export {
+  CheckParameters,
+  CheckResult,
+  CheckStatus,
+  checkPullRequest
+} from './check-pr'
+export {GitHubClient, createClient} from './client'
+export {LogAnnotation, Logger, actionsLogger, createTextLogger} from './logger'
+export {CheckOptions, DEFAULT_OPTIONS} from './policy'
+export {CodeOwnerRule, RuleDetails, RuleResult, RuleStatus} from './rule-runner'
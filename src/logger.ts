@@ -0,0 +1,51 @@
+import {error, info, notice, warning} from '@actions/core'
+
+export interface LogAnnotation {
+  title?: string
+  file?: string
+  startLine?: number
+}
+
+export interface Logger {
+  info: (message: string) => void
+  notice: (message: string, annotation?: LogAnnotation) => void
+  warning: (message: string, annotation?: LogAnnotation) => void
+  error: (message: string, annotation?: LogAnnotation) => void
+}
+
+// Log to the workflow run, notices, warnings and errors become annotations
+export const actionsLogger: Logger = {info, notice, warning, error}
+
+function formatAnnotation(
+  level: string,
+  message: string,
+  annotation?: LogAnnotation
+): string {
+  let prefix = level
+  if (annotation?.file) {
+    prefix = `${prefix} ${annotation.file}${
+      annotation.startLine ? `:${annotation.startLine}` : ''
+    }`
+  }
+  if (annotation?.title) {
+    prefix = `${prefix} (${annotation.title})`
+  }
+  return `${prefix}: ${message}`
+}
+
+/**
+ * Create a logger that write each message as a line of text, e.g. to
+ * process.stderr.
+ * @param write the function that write a line of text
+ */
+export function createTextLogger(write: (line: string) => void): Logger {
+  return {
+    info: message => write(message),
+    notice: (message, annotation) =>
+      write(formatAnnotation('Notice', message, annotation)),
+    warning: (message, annotation) =>
+      write(formatAnnotation('Warning', message, annotation)),
+    error: (message, annotation) =>
+      write(formatAnnotation('Error', message, annotation))
+  }
+}
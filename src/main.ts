@@ -1,20 +1,47 @@
-import {getInput} from '@actions/core'
+import {getInput, info, setOutput} from '@actions/core'
 import {context} from '@actions/github'
 
 import {checkPullRequest} from './check-pr'
+import {createClient} from './client'
+import {Command, parseCommand} from './commands'
 import {processError} from './error-tools'
+import {Helper, MergeMethod} from './helper'
+import {actionsLogger} from './logger'
+import {MERGE_METHODS, MERGE_MODES, MergeMode, mergePullRequest} from './merge'
+import {setResultOutputs, writeJobSummary} from './outputs'
+import {PERMISSIONS, isPermission} from './permissions'
+import {getUnknownChecks} from './policy'
+import {publishComment} from './publish'
 
 async function run(): Promise<void> {
   try {
+    const requiredActorPermission =
+      getInput('required_actor_permission') || undefined
+    if (
+      requiredActorPermission !== undefined &&
+      !isPermission(requiredActorPermission)
+    ) {
+      throw new Error(
+        `The input required_actor_permission must be one of ${PERMISSIONS.join(
+          ', '
+        )}.`
+      )
+    }
     const requireCodeOwnersFile = JSON.parse(
       getInput('require_codeowners_file', {required: true}).toLowerCase()
     ) as boolean
+    const validateCodeOwners = JSON.parse(
+      getInput('validate_codeowners', {required: true}).toLowerCase()
+    ) as boolean
     const requireActorIsCodeOwner = JSON.parse(
       getInput('require_code_owner', {required: true}).toLowerCase()
     ) as boolean
     const requireCodeOwnerReview = JSON.parse(
       getInput('require_code_owner_review', {required: true}).toLowerCase()
     ) as boolean
+    const requireCodeOwnerCoverage = JSON.parse(
+      getInput('require_code_owner_coverage', {required: true}).toLowerCase()
+    ) as boolean
     const requireCodeTeamsFile = JSON.parse(
       getInput('require_codeteams_file', {required: true}).toLowerCase()
     ) as boolean
@@ -24,14 +51,151 @@ async function run(): Promise<void> {
     const requireApprovedReview = JSON.parse(
       getInput('require_approved_review', {required: true}).toLowerCase()
     ) as boolean
+    const requiredApprovals = Number(
+      getInput('required_approvals', {required: true})
+    )
+    if (!Number.isInteger(requiredApprovals) || requiredApprovals < 1) {
+      throw new Error(
+        'The input required_approvals must be a positive integer.'
+      )
+    }
+    const ignoreStaleApprovals = JSON.parse(
+      getInput('ignore_stale_approvals', {required: true}).toLowerCase()
+    ) as boolean
+    const ignoreContributorApprovals = JSON.parse(
+      getInput('ignore_contributor_approvals', {required: true}).toLowerCase()
+    ) as boolean
+    const failOnChangesRequested = JSON.parse(
+      getInput('fail_on_changes_requested', {required: true}).toLowerCase()
+    ) as boolean
+    const protectedPaths = JSON.parse(
+      getInput('protected_paths', {required: true})
+    ) as string[]
+    const maxChangedFiles = Number(
+      getInput('max_changed_files', {required: true})
+    )
+    if (!Number.isInteger(maxChangedFiles) || maxChangedFiles < 0) {
+      throw new Error(
+        'The input max_changed_files must be zero or a positive integer.'
+      )
+    }
+    const maxChangedLines = Number(
+      getInput('max_changed_lines', {required: true})
+    )
+    if (!Number.isInteger(maxChangedLines) || maxChangedLines < 0) {
+      throw new Error(
+        'The input max_changed_lines must be zero or a positive integer.'
+      )
+    }
     const requiredMergeableStateInput = getInput('required_mergeable_state', {
       required: true
     })
     const requiredMergeableState = requiredMergeableStateInput
       ? (JSON.parse(requiredMergeableStateInput) as string[])
       : undefined
+    const mergeableStateTimeout = Number(
+      getInput('mergeable_state_timeout', {required: true})
+    )
+    if (!Number.isInteger(mergeableStateTimeout) || mergeableStateTimeout < 0) {
+      throw new Error(
+        'The input mergeable_state_timeout must be zero or a positive integer.'
+      )
+    }
+    const requiredChecks = JSON.parse(
+      getInput('required_checks', {required: true})
+    ) as string[]
+    const requiredChecksTimeout = Number(
+      getInput('required_checks_timeout', {required: true})
+    )
+    if (!Number.isInteger(requiredChecksTimeout) || requiredChecksTimeout < 0) {
+      throw new Error(
+        'The input required_checks_timeout must be zero or a positive integer.'
+      )
+    }
+    const requireConventionalTitle = JSON.parse(
+      getInput('require_conventional_title', {required: true}).toLowerCase()
+    ) as boolean
+    const conventionalTitleTypes = JSON.parse(
+      getInput('conventional_title_types', {required: true})
+    ) as string[]
+    const requiredBodySections = JSON.parse(
+      getInput('required_body_sections', {required: true})
+    ) as string[]
+    const requiredHeadBranch = JSON.parse(
+      getInput('required_head_branch', {required: true})
+    ) as string[]
+    const requireLinkedIssue = JSON.parse(
+      getInput('require_linked_issue', {required: true}).toLowerCase()
+    ) as boolean
+    const requireVerifiedCommits = JSON.parse(
+      getInput('require_verified_commits', {required: true}).toLowerCase()
+    ) as boolean
+    const allowedAuthorDomains = JSON.parse(
+      getInput('allowed_author_domains', {required: true})
+    ) as string[]
+    const requireSignOff = JSON.parse(
+      getInput('require_sign_off', {required: true}).toLowerCase()
+    ) as boolean
+    const breakGlassLabel = getInput('break_glass_label')
+    const breakGlassApprovers = JSON.parse(
+      getInput('break_glass_approvers', {required: true})
+    ) as string[]
+    const breakGlassChecks = JSON.parse(
+      getInput('break_glass_checks', {required: true})
+    ) as string[]
+    const unknownChecks = getUnknownChecks(breakGlassChecks)
+    if (unknownChecks.length > 0) {
+      throw new Error(
+        `The input break_glass_checks has unknown checks: ${unknownChecks.join(
+          ', '
+        )}.`
+      )
+    }
+
+    const failFast = JSON.parse(
+      getInput('fail_fast', {required: true}).toLowerCase()
+    ) as boolean
+    const publishResultsCheckRun = JSON.parse(
+      getInput('publish_check_run', {required: true}).toLowerCase()
+    ) as boolean
+    const publishResultsComment = JSON.parse(
+      getInput('publish_comment', {required: true}).toLowerCase()
+    ) as boolean
+
+    const mergeMode = getInput('merge_mode', {required: true}) as MergeMode
+    if (!MERGE_MODES.includes(mergeMode)) {
+      throw new Error(
+        `The input merge_mode must be one of ${MERGE_MODES.join(', ')}.`
+      )
+    }
+    const mergeMethod = getInput('merge_method', {
+      required: true
+    }) as MergeMethod
+    if (!MERGE_METHODS.includes(mergeMethod)) {
+      throw new Error(
+        `The input merge_method must be one of ${MERGE_METHODS.join(', ')}.`
+      )
+    }
+    const mergeCommitTitle = getInput('merge_commit_title')
+    const mergeCommitMessage = getInput('merge_commit_message')
+    const deleteHeadBranch = JSON.parse(
+      getInput('delete_head_branch', {required: true}).toLowerCase()
+    ) as boolean
+    if (deleteHeadBranch && mergeMode === 'auto') {
+      // The action is not running when GitHub merge the pull request later
+      throw new Error(
+        'The input delete_head_branch can only be used when merge_mode is merge. With auto-merge, use the "Automatically delete head branches" setting of the repository.'
+      )
+    }
 
     const token = getInput('token', {required: true})
+    const apiUrl = getInput('api_url')
+    const apiRetries = Number(getInput('api_retries', {required: true}))
+    if (!Number.isInteger(apiRetries) || apiRetries < 0) {
+      throw new Error(
+        'The input api_retries must be zero or a positive integer.'
+      )
+    }
     const pullNumber =
       context.payload.pull_request?.number ?? context.payload.issue?.number
 
@@ -41,17 +205,136 @@ async function run(): Promise<void> {
       )
     }
 
-    await checkPullRequest({
+    // A comment must be a command on a pull request, e.g. /check
+    let command: Command | undefined
+    const commentId: number | undefined = context.payload.comment?.id
+    if (context.eventName === 'issue_comment') {
+      if (!context.payload.issue?.pull_request) {
+        info(`Issue ${pullNumber} is not a pull request, nothing to check.`)
+        return
+      }
+      command = parseCommand(String(context.payload.comment?.body ?? ''))
+      if (!command) {
+        info(`Comment ${commentId} has no command, nothing to check.`)
+        return
+      }
+      info(`Found command /${command} in comment ${commentId}.`)
+      setOutput('command', command)
+    }
+
+    const {owner, repo} = context.repo
+    const octokit = createClient({
+      token,
+      apiUrl,
+      apiRetries,
+      logger: actionsLogger
+    })
+    const helper = new Helper(octokit, actionsLogger)
+    const result = await checkPullRequest({
+      owner,
+      repo,
+      actor: context.actor,
       pullNumber,
+      octokit,
+      logger: actionsLogger,
+      requiredActorPermission,
       requireCodeOwnersFile,
+      validateCodeOwners,
       requireActorIsCodeOwner,
       requireCodeOwnerReview,
+      requireCodeOwnerCoverage,
       requireCodeTeamsFile,
       requireCodeTeamReview,
       requireApprovedReview,
+      requiredApprovals,
+      ignoreStaleApprovals,
+      ignoreContributorApprovals,
+      failOnChangesRequested,
+      protectedPaths,
+      maxChangedFiles,
+      maxChangedLines,
       requiredMergeableState,
-      token
+      mergeableStateTimeout,
+      requiredChecks,
+      requiredChecksTimeout,
+      requireConventionalTitle,
+      conventionalTitleTypes,
+      requiredBodySections,
+      requiredHeadBranch,
+      requireLinkedIssue,
+      requireVerifiedCommits,
+      allowedAuthorDomains,
+      requireSignOff,
+      breakGlassLabel,
+      breakGlassApprovers,
+      breakGlassChecks,
+      // Explain every failed check, not only the first
+      failFast: command === 'explain' ? false : failFast,
+      publishResultsCheckRun,
+      publishResultsComment
     })
+    if (result.status !== 'error') {
+      setResultOutputs(result.results, result.override)
+      await writeJobSummary(
+        result.pullNumber,
+        result.results,
+        result.override,
+        result.headSha
+      )
+    }
+    if (command) {
+      if (command === 'explain' && result.status !== 'error') {
+        await publishComment(helper, owner, repo, pullNumber, result.results)
+      }
+      if (commentId !== undefined) {
+        await helper.createCommentReaction(
+          owner,
+          repo,
+          commentId,
+          result.status === 'passed' ? '+1' : '-1'
+        )
+      }
+    }
+    if (
+      result.status === 'error' ||
+      (result.status === 'failed' && command !== 'explain')
+    ) {
+      throw new Error(result.message)
+    }
+    if (result.status === 'failed') {
+      info(
+        `Explained the failed checks in a comment on pull request ${pullNumber}.`
+      )
+      return
+    }
+    info('All checks completed.')
+
+    if (command === 'merge' && mergeMode === 'none') {
+      actionsLogger.notice(
+        `The pull request ${pullNumber} is not merged by /merge, because merge_mode is none.`
+      )
+    }
+    // Only merge on a /merge command, when triggered by a comment
+    if (result.headSha && (command === undefined || command === 'merge')) {
+      const mergeStatus = await mergePullRequest(
+        helper,
+        actionsLogger,
+        owner,
+        repo,
+        pullNumber,
+        result.headSha,
+        {
+          mode: mergeMode,
+          method: mergeMethod,
+          commitTitle: mergeCommitTitle,
+          commitMessage: mergeCommitMessage,
+          deleteHeadBranch
+        }
+      )
+      if (mergeStatus) {
+        setOutput('merge_status', mergeStatus)
+      }
+    }
   } catch (error: unknown) {
     throw new Error(processError(error, true))
   }
@@ -0,0 +1,124 @@
+import {Helper, MergeMethod} from './helper'
+import {Logger} from './logger'
+
+export type MergeMode = 'none' | 'merge' | 'auto'
+export type MergeStatus = 'merged' | 'auto_merge_enabled'
+
+export const MERGE_MODES: MergeMode[] = ['none', 'merge', 'auto']
+export const MERGE_METHODS: MergeMethod[] = ['merge', 'squash', 'rebase']
+
+// The mergeable states of a pull request that GitHub can merge now, e.g.
+// unstable when a check that is not required failed
+const MERGEABLE_NOW_STATES = ['clean', 'unstable', 'has_hooks']
+
+export interface MergeSettings {
+  mode: MergeMode
+  method: MergeMethod
+  commitTitle: string
+  commitMessage: string
+  deleteHeadBranch: boolean
+}
+
+export interface TemplateValues {
+  number: number
+  title: string
+  body: string
+  author: string
+  head: string
+  base: string
+}
+
+/**
+ * Replace the placeholders in a commit title or message template, e.g.
+ * `{title} (#{number})`. Unknown placeholders are not replaced.
+ * @param template the template
+ * @param values the values of the pull request
+ */
+export function formatTemplate(
+  template: string,
+  values: TemplateValues
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? String(values[name as keyof TemplateValues])
+      : placeholder
+  )
+}
+
+/**
+ * Merge a pull request that passed the checks, or enable auto-merge of it.
+ * The head commit that was checked is passed to GitHub, so a commit that
+ * is pushed after the checks is never merged.
+ * @param helper the helper for the GitHub API
+ * @param logger the logger
+ * @param owner the owner of the repository
+ * @param repo the name of the repository
+ * @param pullNumber the pull request number
+ * @param headSha the head commit that was checked
+ * @param settings how to merge the pull request
+ */
+export async function mergePullRequest(
+  helper: Helper,
+  logger: Logger,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  headSha: string,
+  settings: MergeSettings
+): Promise<MergeStatus | undefined> {
+  if (settings.mode === 'none') {
+    return undefined
+  }
+  const pr = await helper.getPull(owner, repo, pullNumber)
+  if (!pr) {
+    throw new Error(`Unable to get pull request ${pullNumber}.`)
+  }
+  if (pr.merged) {
+    logger.info(`Pull request ${pullNumber} is already merged.`)
+    return undefined
+  }
+  if (pr.head.sha !== headSha) {
+    throw new Error(
+      `Pull request ${pullNumber} was not merged, because the head commit changed after ${headSha} was checked.`
+    )
+  }
+  const values: TemplateValues = {
+    number: pullNumber,
+    title: pr.title,
+    body: pr.body ?? '',
+    author: pr.user?.login ?? '',
+    head: pr.head.ref,
+    base: pr.base.ref
+  }
+  const options = {
+    sha: headSha,
+    method: settings.method,
+    title: formatTemplate(settings.commitTitle, values),
+    message: formatTemplate(settings.commitMessage, values)
+  }
+  // GitHub only enable auto-merge when something block the merge
+  if (
+    settings.mode === 'auto' &&
+    !MERGEABLE_NOW_STATES.includes(pr.mergeable_state)
+  ) {
+    await helper.enableAutoMerge(pr.node_id, pullNumber, options)
+    logger.info(`Enabled auto-merge of pull request ${pullNumber}.`)
+    return 'auto_merge_enabled'
+  } else if (settings.mode === 'auto') {
+    logger.info(
+      `Pull request ${pullNumber} can be merged now, so it is merged instead of enabling auto-merge.`
+    )
+  }
+  await helper.mergePull(owner, repo, pullNumber, options)
+  logger.info(`Merged pull request ${pullNumber}.`)
+  if (settings.deleteHeadBranch) {
+    if (pr.head.repo?.full_name === `${owner}/${repo}`) {
+      await helper.deleteBranch(owner, repo, pr.head.ref)
+    } else {
+      logger.info(
+        `The head branch ${pr.head.ref} is in another repository, so it is not deleted.`
+      )
+    }
+  }
+  return 'merged'
+}
@@ -0,0 +1,135 @@
+import {matchGlob} from './glob'
+
+// The types of the Conventional Commits specification and its convention
+export const CONVENTIONAL_TYPES = [
+  'build',
+  'chore',
+  'ci',
+  'docs',
+  'feat',
+  'fix',
+  'perf',
+  'refactor',
+  'revert',
+  'style',
+  'test'
+]
+
+const CONVENTIONAL_TITLE = /^(\w+)(?:\([^()]+\))?!?: \S/
+
+const HTML_COMMENT = /<!--[\s\S]*?-->/g
+
+// A fenced code block run to the closing fence, or to the end of the body
+const CODE_BLOCK =
+  /^ {0,3}(`{3,}|~{3,}).*$[\s\S]*?(?:^ {0,3}\1[`~]*[ \t]*\r?$|(?![\s\S]))/gm
+
+// GitHub link an issue when the body has a keyword followed by the issue
+const LINKED_ISSUE =
+  /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\s+(?:([\w.-]+\/[\w.-]+)#(\d+)|#(\d+)|https:\/\/\S+?\/([\w.-]+\/[\w.-]+)\/issues\/(\d+))/
+
+/**
+ * Check that a title follow the Conventional Commits format, e.g.
+ * `feat(parser): add arrays`. Return the problem, if any.
+ * @param title the title of the pull request
+ * @param types the allowed types, any type is allowed when empty
+ */
+export function checkConventionalTitle(
+  title: string,
+  types: string[]
+): string | undefined {
+  const match = title.match(CONVENTIONAL_TITLE)
+  if (!match) {
+    return `The title "${title}" is not a conventional commit title, e.g. "feat(scope): description".`
+  }
+  if (types.length > 0 && !types.includes(match[1])) {
+    return `The title "${title}" has the type ${
+      match[1]
+    }, but the type must be one of ${types.join(', ')}.`
+  }
+  return undefined
+}
+
+/**
+ * Check that the body has each required section, and that the sections are
+ * not empty. A section start with a line that is the heading, e.g.
+ * `## Testing`, and end at the next heading of the same or a higher level.
+ * HTML comments, like the hints in a pull request template, are not
+ * content. Return the problems.
+ * @param body the body of the pull request
+ * @param sections the required section headings
+ */
+export function checkBodySections(body: string, sections: string[]): string[] {
+  const lines = body.replace(HTML_COMMENT, '').split(/\r?\n/)
+  const problems: string[] = []
+  for (const section of sections) {
+    const heading = section.trim().toLowerCase()
+    const start = lines.findIndex(l => l.trim().toLowerCase() === heading)
+    if (start === -1) {
+      problems.push(`The body has no "${section}" section.`)
+      continue
+    }
+    // A section end at the next heading of the same or a higher level, so
+    // sub-headings are part of the section. A heading that is not a
+    // markdown heading end at any heading.
+    const level = (heading.match(/^#*/)?.[0].length ?? 0) || Infinity
+    let end = lines.findIndex((l, i) => {
+      const hashes = l.match(/^\s*(#+)/)?.[1].length
+      return i > start && hashes !== undefined && hashes <= level
+    })
+    if (end === -1) {
+      end = lines.length
+    }
+    if (lines.slice(start + 1, end).every(l => l.trim() === '')) {
+      problems.push(`The "${section}" section of the body is empty.`)
+    }
+  }
+  return problems
+}
+
+/**
+ * Check that a branch name match one of the patterns. In a pattern, `*`
+ * match any character except `/` and `**` match any character. Return the
+ * problem, if any.
+ * @param branch the name of the head branch
+ * @param patterns the branch name patterns
+ */
+export function checkHeadBranch(
+  branch: string,
+  patterns: string[]
+): string | undefined {
+  if (patterns.some(p => matchGlob(p, branch))) {
+    return undefined
+  }
+  return `The head branch ${branch} don't match any of the patterns ${patterns.join(
+    ', '
+  )}.`
+}
+
+/**
+ * Get the issues that the body link to with a keyword, e.g. `Fixes #12`,
+ * `Closes owner/repo#12` or `Resolves https://github.com/owner/repo/issues/12`.
+ * A keyword in an HTML comment or a fenced code block don't link an issue,
+ * e.g. in the comments of a pull request template.
+ * @param body the body of the pull request
+ * @param owner the owner of the repository of the pull request
+ * @param repo the name of the repository of the pull request
+ */
+export function getLinkedIssues(
+  body: string,
+  owner: string,
+  repo: string
+): string[] {
+  const issues: string[] = []
+  const text = body.replace(HTML_COMMENT, '').replace(CODE_BLOCK, '')
+  const pattern = new RegExp(LINKED_ISSUE.source, 'gi')
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const [, fullName, number, localNumber, urlName, urlNumber] = match
+    const issue = localNumber
+      ? `${owner}/${repo}#${localNumber}`
+      : `${fullName ?? urlName}#${number ?? urlNumber}`
+    if (!issues.includes(issue)) {
+      issues.push(issue)
+    }
+  }
+  return issues
+}
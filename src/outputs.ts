@@ -0,0 +1,83 @@
+import {info, setOutput, summary} from '@actions/core'
+
+import {BreakGlassOverride, formatOverride} from './break-glass'
+import {RuleResult, RuleStatus} from './rule-runner'
+
+const statusText: Record<RuleStatus, string> = {
+  passed: '✅ passed',
+  failed: '❌ failed',
+  skipped: '⏭️ skipped',
+  bypassed: '⚠️ bypassed'
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>')
+}
+
+export function setResultOutputs(
+  results: RuleResult[],
+  override?: BreakGlassOverride
+): void {
+  setOutput('results', JSON.stringify(results))
+  setOutput('break_glass', override ? JSON.stringify(override) : '')
+  for (const result of results) {
+    setOutput(result.rule, result.status === 'passed')
+  }
+}
+
+export async function writeJobSummary(
+  pullNumber: number,
+  results: RuleResult[],
+  override?: BreakGlassOverride,
+  headSha?: string
+): Promise<void> {
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    info('No job summary file is available, the summary is not written.')
+    return
+  }
+  summary.addHeading(`Check of pull request ${pullNumber}`, 2)
+  if (override) {
+    summary.addRaw(formatOverride(override, headSha ?? ''), true).addEOL()
+  }
+  summary.addTable([
+    [
+      {data: 'Check', header: true},
+      {data: 'Status', header: true},
+      {data: 'Details', header: true}
+    ],
+    ...results.map(r => {
+      let details = escapeHtml(r.message)
+      if (r.details.approvers && r.details.approvers.length > 0) {
+        details = `${details}<br>Approved by: ${escapeHtml(
+          r.details.approvers.join(', ')
+        )}`
+      }
+      if (r.details.missingApprovers && r.details.missingApprovers.length > 0) {
+        details = `${details}<br>Missing approval from one of: ${escapeHtml(
+          r.details.missingApprovers.join(', ')
+        )}`
+      }
+      return [`<code>${r.rule}</code>`, statusText[r.status], details]
+    })
+  ])
+  for (const result of results) {
+    if (result.details.codeOwnerRules?.length) {
+      summary.addDetails(
+        `CODEOWNERS rules matched by ${result.rule}`,
+        `\n\n${result.details.codeOwnerRules
+          .map(
+            c =>
+              `- <code>${escapeHtml(c.path)}</code> owned by ${escapeHtml(
+                c.owners.join(', ') || 'nobody'
+              )}: ${escapeHtml(c.files.join(', '))}`
+          )
+          .join('\n')}\n\n`
+      )
+    }
+  }
+  await summary.write()
+}
@@ -0,0 +1,34 @@
+export type Permission =
+  | 'none'
+  | 'read'
+  | 'triage'
+  | 'write'
+  | 'maintain'
+  | 'admin'
+
+// The repository permissions, from the lowest to the highest
+export const PERMISSIONS: Permission[] = [
+  'none',
+  'read',
+  'triage',
+  'write',
+  'maintain',
+  'admin'
+]
+
+export function isPermission(value: unknown): value is Permission {
+  return PERMISSIONS.includes(value as Permission)
+}
+
+/**
+ * Check that a permission is the same as, or higher than, the required
+ * permission.
+ * @param permission the permission of the user
+ * @param required the required permission
+ */
+export function hasPermission(
+  permission: Permission,
+  required: Permission
+): boolean {
+  return PERMISSIONS.indexOf(permission) >= PERMISSIONS.indexOf(required)
+}
@@ -0,0 +1,352 @@
+import {load} from 'js-yaml'
+
+import {matchGlob} from './glob'
+import {Helper} from './helper'
+import {Logger} from './logger'
+import {CONVENTIONAL_TYPES} from './metadata'
+import {PERMISSIONS, Permission, isPermission} from './permissions'
+
+export interface CheckOptions {
+  requiredActorPermission: Permission | undefined
+  requireCodeOwnersFile: boolean
+  validateCodeOwners: boolean
+  requireActorIsCodeOwner: boolean
+  requireCodeOwnerReview: boolean
+  requireCodeOwnerCoverage: boolean
+  requireCodeTeamsFile: boolean
+  requireCodeTeamReview: boolean
+  requireApprovedReview: boolean
+  requiredApprovals: number
+  ignoreStaleApprovals: boolean
+  ignoreContributorApprovals: boolean
+  failOnChangesRequested: boolean
+  protectedPaths: string[]
+  maxChangedFiles: number
+  maxChangedLines: number
+  requiredMergeableState: string[] | undefined
+  mergeableStateTimeout: number
+  requiredChecks: string[]
+  requiredChecksTimeout: number
+  requireConventionalTitle: boolean
+  conventionalTitleTypes: string[]
+  requiredBodySections: string[]
+  requiredHeadBranch: string[]
+  requireLinkedIssue: boolean
+  requireVerifiedCommits: boolean
+  allowedAuthorDomains: string[]
+  requireSignOff: boolean
+  breakGlassLabel: string
+  breakGlassApprovers: string[]
+  breakGlassChecks: string[]
+  failFast: boolean
+  publishResultsCheckRun: boolean
+  publishResultsComment: boolean
+}
+
+// The same defaults as the action inputs
+export const DEFAULT_OPTIONS: Readonly<CheckOptions> = {
+  requiredActorPermission: undefined,
+  requireCodeOwnersFile: false,
+  validateCodeOwners: false,
+  requireActorIsCodeOwner: true,
+  requireCodeOwnerReview: true,
+  requireCodeOwnerCoverage: false,
+  requireCodeTeamsFile: false,
+  requireCodeTeamReview: true,
+  requireApprovedReview: true,
+  requiredApprovals: 1,
+  ignoreStaleApprovals: false,
+  ignoreContributorApprovals: false,
+  failOnChangesRequested: false,
+  protectedPaths: [],
+  maxChangedFiles: 0,
+  maxChangedLines: 0,
+  requiredMergeableState: ['clean', 'has_hooks', 'unstable'],
+  mergeableStateTimeout: 60,
+  requiredChecks: [],
+  requiredChecksTimeout: 0,
+  requireConventionalTitle: false,
+  conventionalTitleTypes: CONVENTIONAL_TYPES,
+  requiredBodySections: [],
+  requiredHeadBranch: [],
+  requireLinkedIssue: false,
+  requireVerifiedCommits: false,
+  allowedAuthorDomains: [],
+  requireSignOff: false,
+  breakGlassLabel: '',
+  breakGlassApprovers: [],
+  breakGlassChecks: [],
+  failFast: true,
+  publishResultsCheckRun: false,
+  publishResultsComment: false
+}
+
+// The names of the checks, in the order they run
+export const CHECK_NAMES = [
+  'required_actor_permission',
+  'require_codeowners_file',
+  'validate_codeowners',
+  'require_code_owner',
+  'require_code_owner_review',
+  'require_approved_review',
+  'fail_on_changes_requested',
+  'require_codeteams_file',
+  'require_code_team_review',
+  'protected_paths',
+  'max_changed_files',
+  'max_changed_lines',
+  'required_mergeable_state',
+  'required_checks',
+  'require_conventional_title',
+  'required_body_sections',
+  'required_head_branch',
+  'require_linked_issue',
+  'require_verified_commits',
+  'allowed_author_domains',
+  'require_sign_off'
+]
+
+// A limit is zero, for no limit, or a positive integer
+type PolicyValueType =
+  | 'boolean'
+  | 'count'
+  | 'seconds'
+  | 'limit'
+  | 'text'
+  | 'list'
+  | 'checks'
+  | 'permission'
+
+export const POLICY_FILE = '.github/check-pull-request.yml'
+
+// The policy file use the same names as the action inputs
+const policyRules: Record<
+  string,
+  {option: keyof CheckOptions; type: PolicyValueType}
+> = {
+  required_actor_permission: {
+    option: 'requiredActorPermission',
+    type: 'permission'
+  },
+  require_codeowners_file: {option: 'requireCodeOwnersFile', type: 'boolean'},
+  validate_codeowners: {option: 'validateCodeOwners', type: 'boolean'},
+  require_code_owner: {option: 'requireActorIsCodeOwner', type: 'boolean'},
+  require_code_owner_review: {
+    option: 'requireCodeOwnerReview',
+    type: 'boolean'
+  },
+  require_code_owner_coverage: {
+    option: 'requireCodeOwnerCoverage',
+    type: 'boolean'
+  },
+  require_codeteams_file: {option: 'requireCodeTeamsFile', type: 'boolean'},
+  require_code_team_review: {option: 'requireCodeTeamReview', type: 'boolean'},
+  require_approved_review: {option: 'requireApprovedReview', type: 'boolean'},
+  required_approvals: {option: 'requiredApprovals', type: 'count'},
+  ignore_stale_approvals: {option: 'ignoreStaleApprovals', type: 'boolean'},
+  ignore_contributor_approvals: {
+    option: 'ignoreContributorApprovals',
+    type: 'boolean'
+  },
+  fail_on_changes_requested: {
+    option: 'failOnChangesRequested',
+    type: 'boolean'
+  },
+  protected_paths: {option: 'protectedPaths', type: 'list'},
+  max_changed_files: {option: 'maxChangedFiles', type: 'limit'},
+  max_changed_lines: {option: 'maxChangedLines', type: 'limit'},
+  required_mergeable_state: {option: 'requiredMergeableState', type: 'list'},
+  mergeable_state_timeout: {option: 'mergeableStateTimeout', type: 'seconds'},
+  required_checks: {option: 'requiredChecks', type: 'list'},
+  required_checks_timeout: {option: 'requiredChecksTimeout', type: 'seconds'},
+  require_conventional_title: {
+    option: 'requireConventionalTitle',
+    type: 'boolean'
+  },
+  conventional_title_types: {option: 'conventionalTitleTypes', type: 'list'},
+  required_body_sections: {option: 'requiredBodySections', type: 'list'},
+  required_head_branch: {option: 'requiredHeadBranch', type: 'list'},
+  require_linked_issue: {option: 'requireLinkedIssue', type: 'boolean'},
+  require_verified_commits: {
+    option: 'requireVerifiedCommits',
+    type: 'boolean'
+  },
+  allowed_author_domains: {option: 'allowedAuthorDomains', type: 'list'},
+  require_sign_off: {option: 'requireSignOff', type: 'boolean'},
+  break_glass_label: {option: 'breakGlassLabel', type: 'text'},
+  break_glass_approvers: {option: 'breakGlassApprovers', type: 'list'},
+  break_glass_checks: {option: 'breakGlassChecks', type: 'checks'},
+  fail_fast: {option: 'failFast', type: 'boolean'},
+  publish_check_run: {option: 'publishResultsCheckRun', type: 'boolean'},
+  publish_comment: {option: 'publishResultsComment', type: 'boolean'}
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Get the names in a list that are not check names, e.g. because of a typo.
+ * @param names the check names
+ */
+export function getUnknownChecks(names: string[]): string[] {
+  return names.filter(n => !CHECK_NAMES.includes(n))
+}
+
+function parseRules(
+  rules: unknown,
+  path: string,
+  errors: string[]
+): Partial<CheckOptions> {
+  const options: Partial<CheckOptions> = {}
+  if (!isObject(rules)) {
+    errors.push(`${path} must be a map of rule names and values.`)
+    return options
+  }
+  for (const [name, value] of Object.entries(rules)) {
+    const rule = policyRules[name]
+    if (!rule) {
+      errors.push(`${path}.${name} is not a known rule.`)
+    } else if (rule.type === 'boolean' && typeof value !== 'boolean') {
+      errors.push(`${path}.${name} must be true or false.`)
+    } else if (
+      rule.type === 'count' &&
+      (typeof value !== 'number' || !Number.isInteger(value) || value < 1)
+    ) {
+      errors.push(`${path}.${name} must be a positive integer.`)
+    } else if (
+      (rule.type === 'seconds' || rule.type === 'limit') &&
+      (typeof value !== 'number' || !Number.isInteger(value) || value < 0)
+    ) {
+      errors.push(`${path}.${name} must be zero or a positive integer.`)
+    } else if (
+      rule.type === 'list' &&
+      (!Array.isArray(value) || value.some(v => typeof v !== 'string'))
+    ) {
+      errors.push(`${path}.${name} must be a list of strings.`)
+    } else if (
+      rule.type === 'checks' &&
+      (!Array.isArray(value) || value.some(v => typeof v !== 'string'))
+    ) {
+      errors.push(`${path}.${name} must be a list of check names.`)
+    } else if (
+      rule.type === 'checks' &&
+      getUnknownChecks(value as string[]).length > 0
+    ) {
+      errors.push(
+        `${path}.${name} has unknown checks: ${getUnknownChecks(
+          value as string[]
+        ).join(', ')}.`
+      )
+    } else if (rule.type === 'text' && typeof value !== 'string') {
+      errors.push(`${path}.${name} must be a string.`)
+    } else if (rule.type === 'permission' && !isPermission(value)) {
+      errors.push(`${path}.${name} must be one of ${PERMISSIONS.join(', ')}.`)
+    } else {
+      Object.assign(options, {[rule.option]: value})
+    }
+  }
+  return options
+}
+
+/**
+ * Parse and validate the policy file. The rules in the policy apply
+ * first, then the rules of each branch entry that match the base branch,
+ * in the order they are listed.
+ * @param content the content of the policy file
+ * @param baseRef the base branch of the pull request
+ * @param path the path of the policy file, used in error messages
+ * @param logger the logger for the matching branch patterns
+ */
+export function parsePolicy(
+  content: string,
+  baseRef: string,
+  path = POLICY_FILE,
+  logger?: Logger
+): Partial<CheckOptions> {
+  let policy: unknown
+  try {
+    policy = load(content)
+  } catch (error: unknown) {
+    throw new Error(
+      `The policy file ${path} is not valid YAML. ${String(error)}`
+    )
+  }
+  const errors: string[] = []
+  let options: Partial<CheckOptions> = {}
+  if (policy === undefined || policy === null) {
+    return options
+  }
+  if (!isObject(policy)) {
+    errors.push('The policy must be a map with rules and branches.')
+  } else {
+    for (const key of Object.keys(policy)) {
+      if (key !== 'rules' && key !== 'branches') {
+        errors.push(`${key} is not a known property.`)
+      }
+    }
+    if (policy.rules !== undefined) {
+      options = parseRules(policy.rules, 'rules', errors)
+    }
+    if (policy.branches !== undefined && !Array.isArray(policy.branches)) {
+      errors.push('branches must be a list.')
+    } else if (policy.branches !== undefined) {
+      for (const [i, branch] of (policy.branches as unknown[]).entries()) {
+        const entry = `branches[${i}]`
+        if (!isObject(branch) || typeof branch.pattern !== 'string') {
+          errors.push(`${entry}.pattern must be a branch name or pattern.`)
+          continue
+        }
+        const rules = parseRules(branch.rules, `${entry}.rules`, errors)
+        if (matchGlob(branch.pattern, baseRef)) {
+          logger?.info(
+            `Branch ${baseRef} match policy pattern ${branch.pattern}.`
+          )
+          options = {...options, ...rules}
+        }
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `The policy file ${path} is not valid:\n${errors
+        .map(e => `- ${e}`)
+        .join('\n')}`
+    )
+  }
+  return options
+}
+
+/**
+ * Get the policy file from the base branch and apply it to the options
+ * from the action inputs. The policy take precedence over the inputs,
+ * since the inputs can be changed by the pull request that is checked.
+ * A local policy, like the --config file of the command line, is applied
+ * to the options before the policy file.
+ */
+export async function applyPolicy(
+  helper: Helper,
+  owner: string,
+  repo: string,
+  baseRef: string,
+  options: CheckOptions,
+  logger: Logger,
+  config?: {path: string; content: string}
+): Promise<CheckOptions> {
+  if (config) {
+    options = {
+      ...options,
+      ...parsePolicy(config.content, baseRef, config.path, logger)
+    }
+  }
+  logger.info(`Look for policy file in ${baseRef} branch.`)
+  const content = await helper.getFileContent(owner, repo, POLICY_FILE, baseRef)
+  if (!content) {
+    return options
+  }
+  const policyOptions = parsePolicy(content, baseRef, POLICY_FILE, logger)
+  logger.info(
+    `Applied ${Object.keys(policyOptions).length} rules from the policy file.`
+  )
+  return {...options, ...policyOptions}
+}
@@ -0,0 +1,52 @@
+import ignore from 'ignore'
+
+import {isValidOwner} from './codeowners'
+
+export interface ProtectedPath {
+  pattern: string
+  // The users, teams or emails that can approve a change of the path
+  owners: string[]
+  match: (path: string) => boolean
+}
+
+/**
+ * Parse the protected paths. Each entry is a path pattern followed by one
+ * or more owners, like a line in a CODEOWNERS file, e.g.
+ * `.github/workflows/** @org/platform`. The pattern use the same syntax as
+ * a CODEOWNERS file.
+ * @param entries the protected path entries
+ */
+export function parseProtectedPaths(entries: string[]): ProtectedPath[] {
+  const protectedPaths: ProtectedPath[] = []
+  const errors: string[] = []
+  for (const entry of entries) {
+    const [pattern, ...owners] = entry.trim().split(/\s+/)
+    if (!pattern || owners.length === 0) {
+      errors.push(`"${entry}" must be a path pattern followed by owners.`)
+      continue
+    }
+    const invalid = owners.filter(o => !isValidOwner(o))
+    if (invalid.length > 0) {
+      errors.push(
+        `"${entry}" has invalid owners ${invalid.join(
+          ', '
+        )}, an owner must be a @user, @org/team or email.`
+      )
+      continue
+    }
+    const matcher = ignore().add(pattern)
+    protectedPaths.push({
+      pattern,
+      owners,
+      match: path => matcher.ignores(path)
+    })
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `The protected paths are not valid:\n${errors
+        .map(e => `- ${e}`)
+        .join('\n')}`
+    )
+  }
+  return protectedPaths
+}
@@ -0,0 +1,122 @@
+import {RestEndpointMethodTypes} from '@octokit/rest'
+
+import {Helper} from './helper'
+import {RuleResult} from './rule-runner'
+
+type CheckRunAnnotation = NonNullable<
+  NonNullable<
+    RestEndpointMethodTypes['checks']['create']['parameters']['output']
+  >['annotations']
+>[number]
+
+export const CHECK_RUN_NAME = 'Pull Request Check'
+export const COMMENT_MARKER = '<!-- check-pull-request -->'
+
+// GitHub accept at most 50 annotations in one request
+const MAX_ANNOTATIONS = 50
+
+function formatCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
+
+export function formatResults(results: RuleResult[]): string {
+  const rows = results.map(
+    r => `| \`${r.rule}\` | ${r.status} | ${formatCell(r.message)} |`
+  )
+  return ['| Check | Status | Details |', '| --- | --- | --- |', ...rows].join(
+    '\n'
+  )
+}
+
+export function formatMissing(results: RuleResult[]): string {
+  const failed = results.filter(r => r.status === 'failed')
+  if (failed.length === 0) {
+    return 'All checks passed. Nothing is missing before merge.'
+  }
+  const lines = ['The following is missing before merge:', '']
+  for (const result of failed) {
+    lines.push(`- **${result.rule}**: ${result.message.replace(/\n/g, ' ')}`)
+    if (result.details.missingApprovers?.length) {
+      lines.push(
+        `  - Approval from one of: ${result.details.missingApprovers.join(
+          ', '
+        )}`
+      )
+    }
+  }
+  return lines.join('\n')
+}
+
+export function getAnnotations(results: RuleResult[]): CheckRunAnnotation[] {
+  const annotations: CheckRunAnnotation[] = []
+  for (const result of results.filter(r => r.status === 'failed')) {
+    for (const rule of result.details.codeOwnerRules ?? []) {
+      for (const file of rule.files) {
+        annotations.push({
+          path: file.startsWith('/') ? file.slice(1) : file,
+          start_line: 1,
+          end_line: 1,
+          annotation_level: 'failure',
+          title: `Failed ${result.rule}`,
+          message: `This file is owned by ${
+            rule.owners.join(', ') || 'nobody'
+          } (CODEOWNERS rule ${rule.path}).`
+        })
+      }
+    }
+  }
+  return annotations.slice(0, MAX_ANNOTATIONS)
+}
+
+export async function publishCheckRun(
+  helper: Helper,
+  owner: string,
+  repo: string,
+  headSha: string,
+  results: RuleResult[]
+): Promise<number> {
+  const failed = results.filter(r => r.status === 'failed')
+  return helper.createOrUpdateCheckRun(
+    owner,
+    repo,
+    headSha,
+    CHECK_RUN_NAME,
+    failed.length > 0 ? 'failure' : 'success',
+    {
+      title:
+        failed.length > 0
+          ? `${failed.length} of ${results.length} checks failed`
+          : 'All checks passed',
+      summary: formatMissing(results),
+      text: formatResults(results),
+      annotations: getAnnotations(results)
+    }
+  )
+}
+
+export async function publishComment(
+  helper: Helper,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  results: RuleResult[]
+): Promise<number> {
+  const body = [
+    `### ${CHECK_RUN_NAME}`,
+    '',
+    formatMissing(results),
+    '',
+    '<details><summary>All checks</summary>',
+    '',
+    formatResults(results),
+    '',
+    '</details>'
+  ].join('\n')
+  return helper.createOrUpdateComment(
+    owner,
+    repo,
+    pullNumber,
+    COMMENT_MARKER,
+    body
+  )
+}
@@ -0,0 +1,51 @@
+import {matchGlob} from './glob'
+
+export type CheckState = 'success' | 'pending' | 'failure'
+
+export interface CommitCheck {
+  name: string
+  state: CheckState
+}
+
+export interface RequiredChecksResult {
+  missing: string[]
+  pending: string[]
+  failed: string[]
+  passed: string[]
+}
+
+/**
+ * Compare the check runs and commit statuses of a commit with the required
+ * checks. Each required check is a name or a glob pattern, and all the
+ * checks that match the pattern must have succeeded.
+ * @param checks the check runs and commit statuses of the commit
+ * @param requiredChecks the required check names or patterns
+ */
+export function evaluateRequiredChecks(
+  checks: CommitCheck[],
+  requiredChecks: string[]
+): RequiredChecksResult {
+  const result: RequiredChecksResult = {
+    missing: [],
+    pending: [],
+    failed: [],
+    passed: []
+  }
+  for (const pattern of requiredChecks) {
+    const matching = checks.filter(c => matchGlob(pattern, c.name))
+    if (matching.length === 0) {
+      result.missing.push(pattern)
+      continue
+    }
+    for (const check of matching) {
+      if (check.state === 'failure') {
+        result.failed.push(check.name)
+      } else if (check.state === 'pending') {
+        result.pending.push(check.name)
+      } else {
+        result.passed.push(check.name)
+      }
+    }
+  }
+  return result
+}
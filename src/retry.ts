@@ -0,0 +1,45 @@
+import {Octokit} from '@octokit/rest'
+
+import {getRetryDelay, processError} from './error-tools'
+import {Logger, actionsLogger} from './logger'
+import {sleep} from './wait'
+
+// Don't wait longer than this for a rate limit to reset
+const MAX_RETRY_DELAY = 5 * 60 * 1000
+
+/**
+ * Retry requests that failed because of a rate limit or a server error.
+ * The Retry-After and x-ratelimit-reset headers are used to decide how long
+ * to wait, otherwise the delay is doubled for each attempt.
+ * @param octokit the client to add retry to
+ * @param retries the maximum number of retries for a request
+ * @param logger the logger for the retry warnings
+ */
+export function addRetry(
+  octokit: Octokit,
+  retries: number,
+  logger: Logger = actionsLogger
+): void {
+  octokit.hook.wrap('request', async (request, options) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request(options)
+      } catch (error: unknown) {
+        const delay = getRetryDelay(error, attempt)
+        if (
+          attempt >= retries ||
+          delay === undefined ||
+          delay > MAX_RETRY_DELAY
+        ) {
+          throw error
+        }
+        logger.warning(
+          `${processError(error, false)}\nRetry ${
+            attempt + 1
+          } of ${retries} in ${Math.ceil(delay / 1000)} seconds.`
+        )
+        await sleep(delay)
+      }
+    }
+  })
+}
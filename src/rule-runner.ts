@@ -0,0 +1,128 @@
+import {getErrorCategory, processError} from './error-tools'
+import {Logger} from './logger'
+
+// A bypassed check failed, but was bypassed by a break-glass override
+export type RuleStatus = 'passed' | 'failed' | 'skipped' | 'bypassed'
+
+export interface CodeOwnerRule {
+  path: string
+  owners: string[]
+  files: string[]
+}
+
+export interface RuleDetails {
+  approvers?: string[]
+  missingApprovers?: string[]
+  codeOwnerRules?: CodeOwnerRule[]
+}
+
+export interface RuleResult {
+  rule: string
+  status: RuleStatus
+  message: string
+  details: RuleDetails
+}
+
+export interface RuleOutcome {
+  status: Exclude<RuleStatus, 'failed' | 'bypassed'>
+  message: string
+}
+
+export class RuleRunner {
+  readonly results: RuleResult[] = []
+  private stopped = false
+  private bypassRules: string[] = []
+  private bypassReason = ''
+
+  constructor(
+    private readonly failFast: boolean,
+    private readonly logger: Logger
+  ) {}
+
+  get failed(): RuleResult[] {
+    return this.results.filter(r => r.status === 'failed')
+  }
+
+  get bypassed(): RuleResult[] {
+    return this.results.filter(r => r.status === 'bypassed')
+  }
+
+  /**
+   * Bypass the failure of the rules, e.g. because of a break-glass
+   * override. The rules still run, so the failures are recorded.
+   * @param rules the names of the rules to bypass
+   * @param reason why the rules are bypassed
+   */
+  bypass(rules: string[], reason: string): void {
+    this.bypassRules = rules
+    this.bypassReason = reason
+  }
+
+  skip(rule: string, message: string): void {
+    this.logger.info(`Skipped ${rule}: ${message}`)
+    this.results.push({rule, status: 'skipped', message, details: {}})
+  }
+
+  /**
+   * Run a rule, a thrown error is a failure of the rule. An error from the
+   * GitHub API is thrown, since the rule could not run.
+   * @param rule the name of the rule
+   * @param check the check of the rule
+   */
+  async run(
+    rule: string,
+    check: (details: RuleDetails) => Promise<RuleOutcome>
+  ): Promise<RuleStatus> {
+    if (this.stopped) {
+      this.skip(rule, 'Not evaluated, because an earlier check failed.')
+      return 'skipped'
+    }
+    this.logger.info(`Check ${rule}`)
+    const details: RuleDetails = {}
+    try {
+      const {status, message} = await check(details)
+      if (status === 'skipped') {
+        this.logger.notice(message)
+        this.logger.info(`Skipped ${rule}`)
+      } else {
+        this.logger.info(message)
+        this.logger.info(`Passed ${rule}`)
+      }
+      this.results.push({rule, status, message, details})
+      return status
+    } catch (err: unknown) {
+      if (getErrorCategory(err)) {
+        throw err
+      }
+      const message = processError(err, false)
+      if (this.bypassRules.includes(rule)) {
+        this.logger.warning(message, {title: `Bypassed ${rule}`})
+        this.results.push({
+          rule,
+          status: 'bypassed',
+          message: `${this.bypassReason} ${message}`,
+          details
+        })
+        return 'bypassed'
+      }
+      this.results.push({rule, status: 'failed', message, details})
+      if (this.failFast) {
+        this.stopped = true
+      } else {
+        this.logger.error(message, {title: `Failed ${rule}`})
+      }
+      return 'failed'
+    }
+  }
+
+  failureMessage(pullNumber: number): string {
+    const failed = this.failed
+    if (this.failFast && failed.length === 1) {
+      return failed[0].message
+    }
+    const lines = failed.map(r => `- ${r.rule}: ${r.message}`)
+    return `${failed.length} of ${
+      this.results.length
+    } checks failed for pull request ${pullNumber}:\n${lines.join('\n')}`
+  }
+}